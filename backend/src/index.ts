@@ -1,12 +1,20 @@
 import express from "express";
 import chatRoutes from "./routes/chat";
 import containerRoutes from "./routes/containers";
+import modelRoutes from "./routes/models";
+import templateRoutes from "./routes/templates";
+import { attachTerminalServer } from "./routes/terminal";
+import usageRoutes from "./routes/usage";
+import * as dockerService from "./services/docker";
 
 const app = express();
 
 app.use((req, res, next) => {
   res.header("Access-Control-Allow-Origin", "*");
-  res.header("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
+  res.header(
+    "Access-Control-Allow-Methods",
+    "GET, POST, PUT, PATCH, DELETE, OPTIONS"
+  );
   res.header(
     "Access-Control-Allow-Headers",
     "Origin, X-Requested-With, Content-Type, Accept, Authorization"
@@ -24,10 +32,21 @@ app.use(express.urlencoded({ limit: "50mb", extended: true }));
 
 app.use("/containers", containerRoutes);
 app.use("/chat", chatRoutes);
+app.use("/models", modelRoutes);
+app.use("/templates", templateRoutes);
+app.use("/usage", usageRoutes);
 
 const PORT = process.env.PORT || 4000;
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`Docker Container API running on port ${PORT}`);
+
+  // Build the project base image up front so the first project starts quickly
+  dockerService
+    .ensureBaseImage()
+    .then((imageName) => console.log(`Base image ready: ${imageName}`))
+    .catch((error) => console.error("Could not prepare base image:", error));
 });
 
+attachTerminalServer(server);
+
 export default app;
@@ -1,83 +1,475 @@
 import express from "express";
+import * as limitService from "../services/limits";
 import * as llmService from "../services/llm";
+import type { ChatSession } from "../services/session";
+import * as usageService from "../services/usage";
 
 const router = express.Router();
 
-//@ts-ignore
-router.post("/:containerId/messages", async (req, res) => {
+function toSessionInfo(session: ChatSession) {
+  return {
+    id: session.id,
+    title: session.title || llmService.DEFAULT_SESSION_TITLE,
+    messageCount: session.messages.length,
+    model: session.model,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+router.get("/:containerId/sessions", async (req, res) => {
   const { containerId } = req.params;
-  const { message, attachments = [], stream = false } = req.body;
 
-  if (!message || typeof message !== "string") {
+  try {
+    const sessions = llmService
+      .listChatSessions(containerId)
+      .map(toSessionInfo);
+
+    res.json({
+      success: true,
+      sessions,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+router.post("/:containerId/sessions", async (req, res) => {
+  const { containerId } = req.params;
+  const { title } = req.body || {};
+
+  try {
+    const session = llmService.createChatSession(
+      containerId,
+      typeof title === "string" ? title : undefined
+    );
+
+    res.json({
+      success: true,
+      session: toSessionInfo(session),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+//@ts-ignore
+router.patch("/:containerId/sessions/:sessionId", async (req, res) => {
+  const { containerId, sessionId } = req.params;
+  const { title } = req.body;
+
+  if (!title || typeof title !== "string") {
     return res.status(400).json({
       success: false,
-      error: "Message is required",
+      error: "Title is required",
+    });
+  }
+
+  try {
+    const session = llmService.renameChatSession(containerId, sessionId, title);
+
+    res.json({
+      success: true,
+      session: toSessionInfo(session),
+    });
+  } catch (error) {
+    res.status(404).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+router.delete("/:containerId/sessions/:sessionId", async (req, res) => {
+  const { containerId, sessionId } = req.params;
+
+  try {
+    llmService.deleteChatSession(containerId, sessionId);
+
+    res.json({
+      success: true,
+      message: "Chat session deleted successfully",
+    });
+  } catch (error) {
+    res.status(404).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
     });
   }
+});
+
+function setEventStreamHeaders(res: express.Response) {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("Access-Control-Allow-Origin", "*");
+}
+
+function writeErrorEvent(
+  res: express.Response,
+  data: { error: string; status?: number; limit?: limitService.LimitStatus }
+) {
+  res.write(`data: ${JSON.stringify({ type: "error", data })}\n\n`);
+  res.end();
+}
+
+// Checked before every request that calls the model. Streaming clients get the
+// error as an event so it shows up like any other chat error
+function rejectOverLimit(
+  res: express.Response,
+  containerId: string,
+  stream: boolean
+): boolean {
+  const limit =
+    limitService.getExceededLimit(containerId) ||
+    limitService.takeRequest(containerId);
+  if (!limit) {
+    return false;
+  }
+
+  const error = limitService.formatLimitError(limit);
+  console.warn(`[LIMITS] Rejected message for ${containerId}: ${error}`);
+
+  if (stream) {
+    setEventStreamHeaders(res);
+    writeErrorEvent(res, { error, status: 429, limit });
+  } else {
+    res.status(429).json({ success: false, error, limit });
+  }
+  return true;
+}
+
+// Checks the options shared by every request that calls the model
+function rejectInvalidOptions(
+  res: express.Response,
+  options: { model?: unknown; tools?: unknown }
+): boolean {
+  let error: string | undefined;
+  if (options.model !== undefined && typeof options.model !== "string") {
+    error = "Model must be a string";
+  } else if (
+    options.tools !== undefined &&
+    typeof options.tools !== "boolean"
+  ) {
+    error = "Tools must be a boolean";
+  }
+
+  if (!error) {
+    return false;
+  }
+
+  res.status(400).json({ success: false, error });
+  return true;
+}
+
+async function writeEventStream(
+  res: express.Response,
+  createStream: (
+    signal: AbortSignal
+  ) => AsyncGenerator<llmService.ChatStreamEvent>
+) {
+  setEventStreamHeaders(res);
+
+  const abortController = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      abortController.abort();
+    }
+  });
 
   try {
-    if (stream) {
-      res.setHeader("Content-Type", "text/event-stream");
-      res.setHeader("Cache-Control", "no-cache");
-      res.setHeader("Connection", "keep-alive");
-      res.setHeader("Access-Control-Allow-Origin", "*");
-
-      const messageStream = llmService.sendMessageStream(
-        containerId,
-        message,
-        attachments
-      );
-
-      for await (const chunk of messageStream) {
+    // Keep consuming after a disconnect so the stopped message is saved
+    for await (const chunk of createStream(abortController.signal)) {
+      if (!abortController.signal.aborted) {
         res.write(`data: ${JSON.stringify(chunk)}\n\n`);
       }
+    }
 
+    if (!abortController.signal.aborted) {
       res.write("data: [DONE]\n\n");
       res.end();
-    } else {
-      const { userMessage, assistantMessage } = await llmService.sendMessage(
-        containerId,
-        message,
-        attachments
-      );
-
-      res.json({
-        success: true,
-        userMessage,
-        assistantMessage,
-      });
     }
   } catch (error) {
     console.log(error);
-    if (stream) {
-      res.write(
-        `data: ${JSON.stringify({
-          type: "error",
-          data: {
-            error: error instanceof Error ? error.message : "Unknown error",
-          },
-        })}\n\n`
-      );
-      res.end();
-    } else {
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
+    writeErrorEvent(res, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
   }
-});
+}
 
-router.get("/:containerId/messages", async (req, res) => {
-  const { containerId } = req.params;
+async function postMessage(
+  req: express.Request<{ containerId: string; sessionId?: string }>,
+  res: express.Response
+) {
+  const { containerId, sessionId } = req.params;
+  const {
+    message,
+    attachments = [],
+    stream = false,
+    review = false,
+    autoFix = false,
+    model,
+    openFiles = [],
+    tools,
+  } = req.body;
+
+  if (!message || typeof message !== "string") {
+    res.status(400).json({
+      success: false,
+      error: "Message is required",
+    });
+    return;
+  }
+
+  if (rejectInvalidOptions(res, { model, tools })) {
+    return;
+  }
+
+  if (rejectOverLimit(res, containerId, stream)) {
+    return;
+  }
+
+  if (stream) {
+    await writeEventStream(res, (signal) =>
+      llmService.sendMessageStream(containerId, message, attachments, {
+        review,
+        autoFix,
+        model,
+        openFiles,
+        sessionId,
+        tools,
+        signal,
+      })
+    );
+    return;
+  }
+
+  try {
+    const { userMessage, assistantMessage } = await llmService.sendMessage(
+      containerId,
+      message,
+      attachments,
+      { review, autoFix, model, openFiles, sessionId, tools }
+    );
+
+    res.json({
+      success: true,
+      userMessage,
+      assistantMessage,
+    });
+  } catch (error) {
+    console.log(error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+router.post("/:containerId/messages", postMessage);
+router.post("/:containerId/sessions/:sessionId/messages", postMessage);
+
+async function getMessages(
+  req: express.Request<{ containerId: string; sessionId?: string }>,
+  res: express.Response
+) {
+  const { containerId, sessionId } = req.params;
+
+  if (
+    sessionId &&
+    llmService.getChatSession(sessionId)?.containerId !== containerId
+  ) {
+    res.status(404).json({
+      success: false,
+      error: `Chat session ${sessionId} not found`,
+    });
+    return;
+  }
 
   try {
-    const session = llmService.getOrCreateChatSession(containerId);
+    const session = llmService.getOrCreateChatSession(containerId, sessionId);
 
     res.json({
       success: true,
       messages: session.messages,
       sessionId: session.id,
+      title: session.title || llmService.DEFAULT_SESSION_TITLE,
+      model: session.model,
+      summary: session.summary,
+      branches: (session.branches || []).map((branch) => ({
+        id: branch.id,
+        forkedAfter: branch.forkedAfter,
+        messageCount: branch.messages.length,
+        createdAt: branch.createdAt,
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+router.get("/:containerId/messages", getMessages);
+router.get("/:containerId/sessions/:sessionId/messages", getMessages);
+
+router.get("/:containerId/usage", async (req, res) => {
+  const { containerId } = req.params;
+
+  try {
+    res.json({
+      success: true,
+      usage: usageService.getProjectUsage(containerId),
+      limits: limitService.getLimitStatuses(containerId),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+//@ts-ignore
+router.put("/:containerId/messages/:messageId", async (req, res) => {
+  const { containerId, messageId } = req.params;
+  const {
+    message,
+    review = false,
+    autoFix = false,
+    model,
+    openFiles = [],
+    tools,
+  } = req.body;
+
+  if (!message || typeof message !== "string") {
+    return res.status(400).json({
+      success: false,
+      error: "Message is required",
+    });
+  }
+
+  if (rejectInvalidOptions(res, { model, tools })) {
+    return;
+  }
+
+  if (rejectOverLimit(res, containerId, true)) {
+    return;
+  }
+
+  await writeEventStream(res, (signal) =>
+    llmService.editMessageStream(containerId, messageId, message, {
+      review,
+      autoFix,
+      model,
+      openFiles,
+      tools,
+      signal,
+    })
+  );
+});
+
+router.post(
+  "/:containerId/messages/:messageId/regenerate",
+  async (req, res) => {
+    const { containerId, messageId } = req.params;
+    const {
+      review = false,
+      autoFix = false,
+      model,
+      openFiles = [],
+      tools,
+    } = req.body || {};
+
+    if (rejectInvalidOptions(res, { model, tools })) {
+      return;
+    }
+
+    if (rejectOverLimit(res, containerId, true)) {
+      return;
+    }
+
+    await writeEventStream(res, (signal) =>
+      llmService.regenerateMessageStream(containerId, messageId, {
+        review,
+        autoFix,
+        model,
+        openFiles,
+        tools,
+        signal,
+      })
+    );
+  }
+);
+
+router.post("/:containerId/messages/:messageId/revert", async (req, res) => {
+  const { containerId, messageId } = req.params;
+
+  try {
+    const message = await llmService.revertToMessage(containerId, messageId);
+
+    res.json({
+      success: true,
+      messageId: message.id,
+      checkpointId: message.checkpointId,
+      message: "Project restored successfully",
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+router.get("/:containerId/messages/:messageId/changes", async (req, res) => {
+  const { containerId, messageId } = req.params;
+
+  try {
+    const changes = await llmService.getPendingChanges(containerId, messageId);
+
+    res.json({
+      success: true,
+      changes,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+//@ts-ignore
+router.post("/:containerId/messages/:messageId/changes", async (req, res) => {
+  const { containerId, messageId } = req.params;
+  const { operationIds, action } = req.body;
+
+  if (!Array.isArray(operationIds) || !["accept", "reject"].includes(action)) {
+    return res.status(400).json({
+      success: false,
+      error: "operationIds and an action of accept or reject are required",
+    });
+  }
+
+  try {
+    const message = await llmService.resolvePendingChanges(
+      containerId,
+      messageId,
+      operationIds,
+      action
+    );
+
+    res.json({
+      success: true,
+      message,
     });
   } catch (error) {
     res.status(500).json({
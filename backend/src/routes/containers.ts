@@ -1,9 +1,13 @@
 import express from "express";
-import { v4 as uuidv4 } from "uuid";
+import * as consoleService from "../services/console";
+import * as creationService from "../services/creation";
 import * as dockerService from "../services/docker";
 import * as exportService from "../services/export";
 import * as fileService from "../services/file";
+import * as gitService from "../services/git";
 import * as packageService from "../services/package";
+import * as projectService from "../services/projects";
+import * as templateService from "../services/templates";
 
 const router = express.Router();
 
@@ -23,37 +27,112 @@ router.get("/", async (req, res) => {
   }
 });
 
+//@ts-ignore
 router.post("/create", async (req, res) => {
-  const containerId = uuidv4();
+  const { name, description, templateId, prompt } = req.body || {};
+
+  for (const [field, value] of Object.entries({
+    name,
+    description,
+    templateId,
+    prompt,
+  })) {
+    if (value !== undefined && typeof value !== "string") {
+      return res.status(400).json({
+        success: false,
+        error: `${field} must be a string`,
+      });
+    }
+  }
 
+  let template: templateService.TemplateManifest;
   try {
-    const imageName = await dockerService.buildImage(containerId);
-    const { container, port } = await dockerService.createContainer(
-      imageName,
-      containerId
-    );
-
-    res.json({
-      success: true,
-      containerId: container.id,
-      container: {
-        id: containerId,
-        containerId: container.id,
-        status: "running",
-        port: port,
-        url: `http://localhost:${port}`,
-        createdAt: new Date().toISOString(),
-        type: "Next.js App",
-      },
-    });
+    template = templateId
+      ? templateService.getTemplate(templateId)
+      : templateService.getDefaultTemplate();
   } catch (error) {
-    await dockerService.cleanupImage(containerId);
-
-    res.status(500).json({
+    return res.status(400).json({
       success: false,
       error: error instanceof Error ? error.message : "Unknown error",
     });
   }
+
+  // The image build can take minutes, progress is streamed from the job events
+  const job = creationService.startCreation(template, {
+    name,
+    description,
+    prompt,
+  });
+
+  res.status(202).json({
+    success: true,
+    jobId: job.id,
+    job,
+  });
+});
+
+//@ts-ignore
+router.get("/jobs/:jobId", async (req, res) => {
+  const job = creationService.getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: "Creation job not found",
+    });
+  }
+
+  res.json({
+    success: true,
+    job,
+  });
+});
+
+router.get("/jobs/:jobId/events", async (req, res) => {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  const send = (data: unknown) =>
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+  const finish = (job: creationService.CreationJob) => {
+    const { events, ...result } = job;
+    send(
+      job.status === "failed"
+        ? { type: "error", data: { error: job.error, job: result } }
+        : { type: "complete", data: result }
+    );
+    res.write("data: [DONE]\n\n");
+    res.end();
+  };
+
+  const job = creationService.getJob(req.params.jobId);
+  if (!job) {
+    send({ type: "error", data: { error: "Creation job not found" } });
+    res.write("data: [DONE]\n\n");
+    res.end();
+    return;
+  }
+
+  // Replay what happened before the client connected
+  for (const event of job.events) {
+    send({ type: "progress", data: event });
+  }
+
+  if (job.status !== "running") {
+    finish(job);
+    return;
+  }
+
+  const unsubscribe = creationService.subscribe(job.id, (update) => {
+    if (update.type === "progress") {
+      send({ type: "progress", data: update.event });
+    } else {
+      finish(update.job);
+    }
+  });
+
+  req.on("close", unsubscribe);
 });
 
 router.post("/:containerId/start", async (req, res) => {
@@ -98,6 +177,90 @@ router.post("/:containerId/stop", async (req, res) => {
   }
 });
 
+// Projects created before the registry existed only have their container
+async function projectExists(containerId: string): Promise<boolean> {
+  if (projectService.getProject(containerId)) {
+    return true;
+  }
+
+  try {
+    await dockerService.getContainer(containerId).inspect();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+//@ts-ignore
+router.patch("/:containerId", async (req, res) => {
+  const { containerId } = req.params;
+  const { name, description } = req.body || {};
+
+  if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+    return res.status(400).json({
+      success: false,
+      error: "Name must be a non-empty string",
+    });
+  }
+
+  if (description !== undefined && typeof description !== "string") {
+    return res.status(400).json({
+      success: false,
+      error: "Description must be a string",
+    });
+  }
+
+  if (!(await projectExists(containerId))) {
+    return res.status(404).json({
+      success: false,
+      error: "Project not found",
+    });
+  }
+
+  try {
+    const project = projectService.updateProject(containerId, {
+      name,
+      description,
+    });
+
+    res.json({
+      success: true,
+      project,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+//@ts-ignore
+router.post("/:containerId/open", async (req, res) => {
+  const { containerId } = req.params;
+
+  if (!(await projectExists(containerId))) {
+    return res.status(404).json({
+      success: false,
+      error: "Project not found",
+    });
+  }
+
+  try {
+    const project = projectService.markProjectOpened(containerId);
+
+    res.json({
+      success: true,
+      project,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 router.delete("/:containerId", async (req, res) => {
   const { containerId } = req.params;
 
@@ -119,7 +282,10 @@ router.delete("/:containerId", async (req, res) => {
 
 router.get("/:containerId/files", async (req, res) => {
   const { containerId } = req.params;
-  const { path: containerPath = "/app/my-nextjs-app" } = req.query;
+  const {
+    path: containerPath = templateService.getProjectTemplate(containerId)
+      .basePath,
+  } = req.query;
 
   try {
     const files = await fileService.listFiles(
@@ -153,6 +319,7 @@ router.get("/:containerId/file-tree", async (req, res) => {
     res.json({
       success: true,
       fileTree,
+      basePath: templateService.getProjectTemplate(containerId).basePath,
     });
   } catch (error) {
     res.status(500).json({
@@ -216,14 +383,24 @@ router.get("/:containerId/file", async (req, res) => {
 
 router.put("/:containerId/files", async (req, res) => {
   const { containerId } = req.params;
-  const { path: filePath, content } = req.body;
+  const { path: filePath, content, commitMessage } = req.body;
 
   try {
     await fileService.writeFile(containerId, filePath, content);
 
+    let commitHash: string | null = null;
+    if (commitMessage) {
+      try {
+        commitHash = await gitService.commitAll(containerId, commitMessage);
+      } catch (commitError) {
+        console.error("Could not commit saved file:", commitError);
+      }
+    }
+
     res.json({
       success: true,
       message: "File updated successfully",
+      commitHash,
     });
   } catch (error) {
     res.status(500).json({
@@ -271,10 +448,21 @@ router.delete("/:containerId/files", async (req, res) => {
   }
 });
 
+//@ts-ignore
 router.post("/:containerId/dependencies", async (req, res) => {
   const { containerId } = req.params;
   const { packageName, isDev = false } = req.body;
 
+  if (
+    typeof packageName !== "string" ||
+    !packageService.isValidPackageName(packageName)
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: "A valid npm package name is required",
+    });
+  }
+
   try {
     const output = await packageService.addDependency(
       containerId,
@@ -295,6 +483,193 @@ router.post("/:containerId/dependencies", async (req, res) => {
   }
 });
 
+router.get("/:containerId/logs", async (req, res) => {
+  const { containerId } = req.params;
+  const { follow, tail } = req.query;
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  // The client may leave while the log stream is still being opened
+  let stopStreaming: (() => void) | undefined;
+  let closed = false;
+  req.on("close", () => {
+    closed = true;
+    stopStreaming?.();
+  });
+
+  try {
+    stopStreaming = await dockerService.streamContainerLogs(
+      containerId,
+      {
+        follow: follow === "true",
+        tail: tail ? parseInt(tail as string) : undefined,
+      },
+      (entry) => {
+        res.write(`data: ${JSON.stringify({ type: "log", data: entry })}\n\n`);
+      },
+      () => {
+        res.write("data: [DONE]\n\n");
+        res.end();
+      }
+    );
+
+    if (closed) {
+      stopStreaming();
+    }
+  } catch (error) {
+    res.write(
+      `data: ${JSON.stringify({
+        type: "error",
+        data: {
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      })}\n\n`
+    );
+    res.end();
+  }
+});
+
+router.get("/:containerId/console-logs", async (req, res) => {
+  const { containerId } = req.params;
+  const { limit } = req.query;
+
+  try {
+    const logs = consoleService.getLogs(
+      containerId,
+      limit ? parseInt(limit as string) : undefined
+    );
+
+    res.json({
+      success: true,
+      logs,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+//@ts-ignore
+router.post("/:containerId/console-logs", async (req, res) => {
+  const { containerId } = req.params;
+  const { logs } = req.body;
+
+  if (!Array.isArray(logs)) {
+    return res.status(400).json({
+      success: false,
+      error: "Logs are required",
+    });
+  }
+
+  try {
+    consoleService.addLogs(containerId, logs);
+
+    res.json({
+      success: true,
+      message: "Logs recorded successfully",
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+router.delete("/:containerId/console-logs", async (req, res) => {
+  const { containerId } = req.params;
+
+  try {
+    consoleService.clearLogs(containerId);
+
+    res.json({
+      success: true,
+      message: "Logs cleared successfully",
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+router.get("/:containerId/git/log", async (req, res) => {
+  const { containerId } = req.params;
+  const { limit } = req.query;
+
+  try {
+    const commits = await gitService.getLog(
+      containerId,
+      limit ? parseInt(limit as string) : undefined
+    );
+
+    res.json({
+      success: true,
+      commits,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+router.get("/:containerId/git/diff", async (req, res) => {
+  const { containerId } = req.params;
+  const { ref = "HEAD" } = req.query;
+
+  try {
+    const diff = await gitService.getDiff(containerId, ref as string);
+
+    res.json({
+      success: true,
+      ref,
+      diff,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+//@ts-ignore
+router.post("/:containerId/git/checkout", async (req, res) => {
+  const { containerId } = req.params;
+  const { ref } = req.body;
+
+  if (!ref || typeof ref !== "string") {
+    return res.status(400).json({
+      success: false,
+      error: "Ref is required",
+    });
+  }
+
+  try {
+    const commitHash = await gitService.checkout(containerId, ref);
+
+    res.json({
+      success: true,
+      ref,
+      commitHash,
+      message: "Project restored successfully",
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 //@ts-ignore
 router.get("/:containerId/export", async (req, res) => {
   const { containerId } = req.params;
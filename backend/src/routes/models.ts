@@ -0,0 +1,23 @@
+import express from "express";
+import * as modelService from "../services/models";
+
+const router = express.Router();
+
+router.get("/", async (req, res) => {
+  try {
+    const models = modelService.listModels();
+
+    res.json({
+      success: true,
+      models,
+      defaultModel: modelService.DEFAULT_MODEL_ID,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,24 @@
+import express from "express";
+import { config } from "../../config";
+import * as templateService from "../services/templates";
+
+const router = express.Router();
+
+router.get("/", async (req, res) => {
+  try {
+    const templates = await templateService.listTemplates();
+
+    res.json({
+      success: true,
+      templates: templates.map(({ prompt, ...template }) => template),
+      defaultTemplate: config.templates.default,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,93 @@
+import type { Server } from "http";
+import { WebSocketServer } from "ws";
+import * as terminalService from "../services/terminal";
+
+const TERMINAL_PATH = /^\/containers\/([^/]+)\/terminal$/;
+const CLOSE_TIMEOUT_MS = 5000;
+
+export function attachTerminalServer(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const match = url.pathname.match(TERMINAL_PATH);
+
+    if (!match) {
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, async (ws) => {
+      const containerId = decodeURIComponent(match[1]!);
+      const cols = parseInt(url.searchParams.get("cols") || "80");
+      const rows = parseInt(url.searchParams.get("rows") || "24");
+
+      const send = (message: object) => {
+        if (ws.readyState === ws.OPEN) {
+          ws.send(JSON.stringify(message));
+        }
+      };
+
+      let terminalId: string | null = null;
+      let socketClosed = false;
+
+      ws.on("message", (raw) => {
+        if (!terminalId) return;
+
+        try {
+          const message = JSON.parse(raw.toString());
+          if (message.type === "input" && typeof message.data === "string") {
+            terminalService.writeTerminal(terminalId, message.data);
+          } else if (message.type === "resize") {
+            terminalService.resizeTerminal(
+              terminalId,
+              message.cols,
+              message.rows
+            );
+          }
+        } catch (error) {
+          console.error("Invalid terminal message:", error);
+        }
+      });
+
+      const handleSocketClose = () => {
+        socketClosed = true;
+        if (terminalId) {
+          terminalService.closeTerminal(terminalId);
+        }
+      };
+
+      ws.on("close", handleSocketClose);
+      // Without a listener a socket error would crash the backend
+      ws.on("error", (error) => {
+        console.error(`Terminal socket for ${containerId} failed:`, error);
+        handleSocketClose();
+        ws.terminate();
+      });
+
+      try {
+        terminalId = await terminalService.openTerminal(
+          containerId,
+          { cols, rows },
+          (data) => send({ type: "output", data }),
+          () => {
+            send({ type: "exit" });
+            ws.close();
+            // Don't wait forever for a client that never finishes the close handshake
+            setTimeout(() => ws.terminate(), CLOSE_TIMEOUT_MS).unref();
+          }
+        );
+
+        if (socketClosed) {
+          terminalService.closeTerminal(terminalId);
+        }
+      } catch (error) {
+        send({
+          type: "error",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        ws.close();
+      }
+    });
+  });
+}
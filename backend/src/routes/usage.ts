@@ -0,0 +1,23 @@
+import express from "express";
+import * as usageService from "../services/usage";
+
+const router = express.Router();
+
+router.get("/", async (req, res) => {
+  try {
+    const usage = usageService.getGlobalUsage();
+
+    res.json({
+      success: true,
+      total: usage.total,
+      projects: usage.projects,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,55 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { config } from "../../config";
+import * as templateService from "./templates";
+
+const execFileAsync = promisify(execFile);
+const MAX_OUTPUT_LENGTH = 8000;
+
+export interface BuildCheckResult {
+  success: boolean;
+  output: string;
+}
+
+function truncateOutput(output: string): string {
+  if (output.length <= MAX_OUTPUT_LENGTH) {
+    return output;
+  }
+  return `${output.slice(0, MAX_OUTPUT_LENGTH)}\n... (output truncated)`;
+}
+
+export async function runBuildCheck(
+  containerId: string
+): Promise<BuildCheckResult> {
+  const { basePath, checkCommand } =
+    templateService.getProjectTemplate(containerId);
+
+  try {
+    const { stdout, stderr } = await execFileAsync(
+      "docker",
+      ["exec", "-w", basePath, containerId, "sh", "-c", checkCommand],
+      {
+        timeout: config.autoFix.timeoutSeconds * 1000,
+        maxBuffer: 10 * 1024 * 1024,
+      }
+    );
+
+    return {
+      success: true,
+      output: truncateOutput(`${stdout}${stderr}`.trim()),
+    };
+  } catch (error: any) {
+    if (error.killed) {
+      return {
+        success: false,
+        output: `Build check timed out after ${config.autoFix.timeoutSeconds} seconds`,
+      };
+    }
+
+    const output = `${error.stdout || ""}${error.stderr || ""}`.trim();
+    return {
+      success: false,
+      output: truncateOutput(output || error.message || "Build check failed"),
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import { exec } from "child_process";
+import fs from "fs/promises";
+import path from "path";
+import { promisify } from "util";
+import { v4 as uuidv4 } from "uuid";
+import { config } from "../../config";
+import * as gitService from "./git";
+import * as templateService from "./templates";
+
+const execAsync = promisify(exec);
+const CHECKPOINT_DIR = path.join(config.storage.dataDir, "checkpoints");
+
+function getContainerCheckpointDir(containerId: string): string {
+  return path.resolve(CHECKPOINT_DIR, containerId);
+}
+
+function getArchivePath(containerId: string, checkpointId: string): string {
+  return path.join(
+    getContainerCheckpointDir(containerId),
+    `${checkpointId}.tar.gz`
+  );
+}
+
+export async function createCheckpoint(containerId: string): Promise<string> {
+  const checkpointId = uuidv4();
+  const archivePath = getArchivePath(containerId, checkpointId);
+  const containerArchive = `/tmp/checkpoint-${checkpointId}.tar.gz`;
+
+  const template = templateService.getProjectTemplate(containerId);
+  // The git history stays untouched so commits made after the checkpoint survive a restore
+  const excludes = templateService
+    .getIgnoredPaths(template)
+    .map((entry) => `--exclude=${entry}`)
+    .join(" ");
+
+  await fs.mkdir(path.dirname(archivePath), { recursive: true });
+
+  try {
+    await execAsync(
+      `docker exec -w ${template.basePath} ${containerId} tar -czf ${containerArchive} ${excludes} .`
+    );
+    await execAsync(
+      `docker cp ${containerId}:${containerArchive} "${archivePath}"`
+    );
+    console.log(`Created checkpoint ${checkpointId} for ${containerId}`);
+    return checkpointId;
+  } catch (error) {
+    await fs.rm(archivePath, { force: true });
+    throw new Error(
+      `Checkpoint failed: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  } finally {
+    try {
+      await execAsync(`docker exec ${containerId} rm -f ${containerArchive}`);
+    } catch {}
+  }
+}
+
+export async function restoreCheckpoint(
+  containerId: string,
+  checkpointId: string
+): Promise<void> {
+  const archivePath = getArchivePath(containerId, checkpointId);
+  const containerArchive = `/tmp/checkpoint-${checkpointId}.tar.gz`;
+
+  try {
+    await fs.access(archivePath);
+  } catch {
+    throw new Error(`Checkpoint ${checkpointId} not found`);
+  }
+
+  await execAsync(
+    `docker cp "${archivePath}" ${containerId}:${containerArchive}`
+  );
+
+  const template = templateService.getProjectTemplate(containerId);
+
+  try {
+    // Dependencies, build output and the git history are not part of checkpoints, keep them
+    const kept = templateService
+      .getIgnoredPaths(template)
+      .map((entry) => `! -name ${entry}`)
+      .join(" ");
+    const restoreCommand = [
+      `find . -mindepth 1 -maxdepth 1 ${kept} -exec rm -rf {} +`,
+      `tar -xzf ${containerArchive}`,
+    ].join(" && ");
+
+    await execAsync(
+      `docker exec -w ${template.basePath} ${containerId} sh -c "${restoreCommand}"`
+    );
+    console.log(`Restored checkpoint ${checkpointId} for ${containerId}`);
+  } finally {
+    try {
+      await execAsync(`docker exec ${containerId} rm -f ${containerArchive}`);
+    } catch {}
+  }
+
+  try {
+    await gitService.commitAll(
+      containerId,
+      `Restore checkpoint ${checkpointId.slice(0, 8)}`
+    );
+  } catch (error) {
+    console.warn(`Could not commit the restore of ${checkpointId}:`, error);
+  }
+}
+
+export async function deleteContainerCheckpoints(
+  containerId: string
+): Promise<void> {
+  await fs.rm(getContainerCheckpointDir(containerId), {
+    recursive: true,
+    force: true,
+  });
+}
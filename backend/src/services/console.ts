@@ -0,0 +1,60 @@
+const LOG_LEVELS = ["log", "info", "warn", "error", "debug"] as const;
+
+export interface ConsoleLogEntry {
+  level: (typeof LOG_LEVELS)[number];
+  message: string;
+  url?: string;
+  timestamp: string;
+}
+
+const MAX_LOGS_PER_CONTAINER = 500;
+const MAX_MESSAGE_LENGTH = 2000;
+
+const consoleLogs = new Map<string, ConsoleLogEntry[]>();
+
+export function addLogs(containerId: string, entries: ConsoleLogEntry[]): void {
+  const logs = consoleLogs.get(containerId) || [];
+
+  for (const entry of entries) {
+    if (!entry || typeof entry !== "object") continue;
+
+    // Entries come from the preview page, anything that is not a known level is a plain log
+    logs.push({
+      level: LOG_LEVELS.includes(entry.level) ? entry.level : "log",
+      message: String(entry.message).slice(0, MAX_MESSAGE_LENGTH),
+      url: typeof entry.url === "string" ? entry.url : undefined,
+      timestamp:
+        typeof entry.timestamp === "string"
+          ? entry.timestamp
+          : new Date().toISOString(),
+    });
+  }
+
+  consoleLogs.set(containerId, logs.slice(-MAX_LOGS_PER_CONTAINER));
+}
+
+export function getLogs(
+  containerId: string,
+  limit?: number
+): ConsoleLogEntry[] {
+  const logs = consoleLogs.get(containerId) || [];
+  return limit ? logs.slice(-limit) : logs;
+}
+
+export function clearLogs(containerId: string): void {
+  consoleLogs.delete(containerId);
+}
+
+export function formatLogsForPrompt(
+  containerId: string,
+  limit: number = 50
+): string {
+  return getLogs(containerId, limit)
+    .map(
+      (entry) =>
+        `[${entry.timestamp}] ${entry.level.toUpperCase()}${
+          entry.url ? ` (${entry.url})` : ""
+        }: ${entry.message}`
+    )
+    .join("\n");
+}
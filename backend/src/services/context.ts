@@ -0,0 +1,347 @@
+import { config } from "../../config";
+import * as dockerService from "./docker";
+import * as fileService from "./file";
+import type { FileContentItem } from "./file";
+import * as gitService from "./git";
+import * as templateService from "./templates";
+
+const MAX_READ_LENGTH = 100000;
+const MAX_SEARCH_RESULTS = 50;
+const IMPORT_EXTENSIONS = ["", ".ts", ".tsx", ".js", ".jsx", ".css", ".json"];
+// Files nothing points at only fill the leftover budget when they are source code
+const SOURCE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".css",
+  ".vue",
+  ".html",
+  ".py",
+];
+
+const SCORES = {
+  mentioned: 100,
+  openInEditor: 80,
+  importedByMentioned: 60,
+  recentlyEdited: 40,
+  entry: 20,
+};
+
+export interface ContextOptions {
+  message: string;
+  openFiles?: string[];
+  maxTokens?: number;
+}
+
+export type FileRequest =
+  { type: "read"; path: string } | { type: "search"; query: string };
+
+interface ContextFile {
+  path: string;
+  content: string;
+  tokens: number;
+  score: number;
+}
+
+export function estimateTokens(text: string): number {
+  // Roughly four characters per token for code and English text
+  return Math.ceil(text.length / 4);
+}
+
+function toRelativePath(filePath: string, basePath: string): string {
+  return filePath.replace(`${basePath}/`, "").replace(/^\.?\//, "");
+}
+
+// Binary files decode to NUL bytes or replacement characters, they are never sent
+function isTextContent(content: string): boolean {
+  return !/[\u0000\uFFFD]/.test(content);
+}
+
+function isSourceFile(filePath: string): boolean {
+  return SOURCE_EXTENSIONS.some((extension) => filePath.endsWith(extension));
+}
+
+function flattenFiles(
+  items: FileContentItem[],
+  basePath: string
+): ContextFile[] {
+  return items.flatMap((item) => {
+    if (item.type === "directory") {
+      return flattenFiles(item.children || [], basePath);
+    }
+
+    const content = item.content || "";
+    if (!isTextContent(content)) {
+      return [];
+    }
+
+    return [
+      {
+        path: toRelativePath(item.path, basePath),
+        content,
+        tokens: estimateTokens(content),
+        score: 0,
+      },
+    ];
+  });
+}
+
+function isMentioned(filePath: string, message: string): boolean {
+  const lowerMessage = message.toLowerCase();
+  if (lowerMessage.includes(filePath.toLowerCase())) {
+    return true;
+  }
+
+  const fileName = filePath.split("/").pop() || "";
+  const baseName = fileName.replace(/\.[^.]+$/, "");
+
+  // Generic names like page or index are only matched with their extension
+  if (["page", "layout", "index", "route"].includes(baseName.toLowerCase())) {
+    return lowerMessage.includes(fileName.toLowerCase());
+  }
+
+  return (
+    baseName.length >= 3 &&
+    new RegExp(
+      `\\b${baseName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`,
+      "i"
+    ).test(message)
+  );
+}
+
+function resolveImports(file: ContextFile, paths: Set<string>): string[] {
+  const specifiers = [
+    ...file.content.matchAll(
+      /(?:import|export)[^'"]*?from\s+['"]([^'"]+)['"]|import\s*\(?\s*['"]([^'"]+)['"]/g
+    ),
+  ].map((match) => match[1] || match[2] || "");
+
+  const directory = file.path.split("/").slice(0, -1);
+  const resolved: string[] = [];
+
+  for (const specifier of specifiers) {
+    let base: string[];
+    if (specifier.startsWith("@/")) {
+      base = ["src", ...specifier.slice(2).split("/")];
+    } else if (specifier.startsWith(".")) {
+      base = [...directory];
+      for (const part of specifier.split("/")) {
+        if (part === "..") base.pop();
+        else if (part !== ".") base.push(part);
+      }
+    } else {
+      continue;
+    }
+
+    const basePath = base.join("/");
+    const candidates = [
+      ...IMPORT_EXTENSIONS.map((extension) => `${basePath}${extension}`),
+      ...IMPORT_EXTENSIONS.slice(1).map(
+        (extension) => `${basePath}/index${extension}`
+      ),
+    ];
+
+    const match = candidates.find((candidate) => paths.has(candidate));
+    if (match) {
+      resolved.push(match);
+    }
+  }
+
+  return resolved;
+}
+
+function rankFiles(
+  files: ContextFile[],
+  options: ContextOptions,
+  recentlyEdited: string[],
+  template: templateService.TemplateManifest
+): ContextFile[] {
+  const byPath = new Map(files.map((file) => [file.path, file]));
+  const paths = new Set(byPath.keys());
+  const openFiles = new Set(
+    (options.openFiles || []).map((filePath) =>
+      toRelativePath(filePath, template.basePath)
+    )
+  );
+
+  const addScore = (filePath: string, score: number) => {
+    const file = byPath.get(filePath);
+    if (file) {
+      file.score = Math.max(file.score, score);
+    }
+  };
+
+  const mentioned = files.filter((file) =>
+    isMentioned(file.path, options.message)
+  );
+
+  for (const file of mentioned) {
+    addScore(file.path, SCORES.mentioned);
+    for (const importedPath of resolveImports(file, paths)) {
+      addScore(importedPath, SCORES.importedByMentioned);
+    }
+  }
+
+  for (const filePath of openFiles) {
+    addScore(filePath, SCORES.openInEditor);
+  }
+
+  // Most recently edited first, each older file scores slightly lower
+  recentlyEdited.forEach((filePath, index) =>
+    addScore(filePath, SCORES.recentlyEdited - index)
+  );
+
+  for (const filePath of template.entryFiles) {
+    addScore(filePath, SCORES.entry);
+  }
+
+  return [...files].sort((a, b) => b.score - a.score || a.tokens - b.tokens);
+}
+
+export async function buildCodeContext(
+  containerId: string,
+  options: ContextOptions
+): Promise<string> {
+  const template = templateService.getProjectTemplate(containerId);
+  const fileContentTree = await fileService.getFileContentTree(
+    dockerService.docker,
+    containerId
+  );
+
+  let recentlyEdited: string[] = [];
+  try {
+    recentlyEdited = await gitService.getRecentlyChangedFiles(containerId);
+  } catch (error) {
+    console.warn("Could not read recently changed files:", error);
+  }
+
+  const ranked = rankFiles(
+    flattenFiles(fileContentTree, template.basePath),
+    options,
+    recentlyEdited,
+    template
+  );
+
+  let remaining = options.maxTokens ?? config.context.maxTokens;
+  const included: ContextFile[] = [];
+  const omitted: ContextFile[] = [];
+
+  for (const file of ranked) {
+    // Files nothing points at never take the place of one that only fits by path
+    const isFiller =
+      file.score === 0 &&
+      (!isSourceFile(file.path) || omitted.some((other) => other.score > 0));
+
+    if (!isFiller && file.tokens <= remaining) {
+      included.push(file);
+      remaining -= file.tokens;
+    } else {
+      omitted.push(file);
+    }
+  }
+
+  console.log(
+    `[CONTEXT] ${included.length} files in full, ${omitted.length} by path only`
+  );
+
+  const sections = included.map(
+    (file) => `<file path="${file.path}">\n${file.content}\n</file>`
+  );
+
+  if (omitted.length > 0) {
+    sections.push(
+      `Other files in the project (read them when you need their content):\n${omitted
+        .map((file) => `- ${file.path}`)
+        .sort()
+        .join("\n")}`
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+export function parseFileRequests(
+  content: string,
+  basePath: string
+): FileRequest[] {
+  const requests: Array<{ index: number; request: FileRequest }> = [];
+
+  for (const match of content.matchAll(
+    /<dec-read\s+(?:path|file_path)="([^"]+)"\s*\/>/g
+  )) {
+    requests.push({
+      index: match.index,
+      request: { type: "read", path: toRelativePath(match[1]!, basePath) },
+    });
+  }
+
+  for (const match of content.matchAll(
+    /<dec-search\s+query="([^"]+)"\s*\/>/g
+  )) {
+    requests.push({
+      index: match.index,
+      request: { type: "search", query: match[1]! },
+    });
+  }
+
+  return requests
+    .sort((a, b) => a.index - b.index)
+    .map(({ request }) => request);
+}
+
+async function answerFileRequest(
+  containerId: string,
+  request: FileRequest
+): Promise<string> {
+  if (request.type === "read") {
+    try {
+      const content = await fileService.readFile(
+        dockerService.docker,
+        containerId,
+        fileService.getAbsolutePath(containerId, request.path)
+      );
+      const truncated =
+        content.length > MAX_READ_LENGTH
+          ? `${content.slice(0, MAX_READ_LENGTH)}\n[File truncated]`
+          : content;
+
+      return `<dec-read-result path="${request.path}">\n${truncated}\n</dec-read-result>`;
+    } catch (error) {
+      return `<dec-read-result path="${request.path}">\nCould not read the file: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }\n</dec-read-result>`;
+    }
+  }
+
+  try {
+    const results = await fileService.searchFiles(
+      dockerService.docker,
+      containerId,
+      request.query,
+      MAX_SEARCH_RESULTS
+    );
+
+    return `<dec-search-result query="${request.query}">\n${
+      results.length > 0 ? results.join("\n") : "No matches"
+    }\n</dec-search-result>`;
+  } catch (error) {
+    return `<dec-search-result query="${request.query}">\nSearch failed: ${
+      error instanceof Error ? error.message : "Unknown error"
+    }\n</dec-search-result>`;
+  }
+}
+
+export async function answerFileRequests(
+  containerId: string,
+  requests: FileRequest[]
+): Promise<string> {
+  const answers: string[] = [];
+  for (const request of requests) {
+    answers.push(await answerFileRequest(containerId, request));
+  }
+
+  console.log(`[CONTEXT] Answered ${requests.length} file requests`);
+  return answers.join("\n\n");
+}
@@ -0,0 +1,238 @@
+import { v4 as uuidv4 } from "uuid";
+import * as dockerService from "./docker";
+import * as projectService from "./projects";
+import type { ProjectInfo } from "./projects";
+import type { TemplateManifest } from "./templates";
+
+export type CreationStage =
+  "queued" | "image" | "install" | "container" | "dev-server" | "ready";
+
+export interface CreationEvent {
+  stage: CreationStage;
+  message: string;
+  timestamp: string;
+}
+
+export interface CreationJob {
+  id: string;
+  templateId: string;
+  status: "running" | "completed" | "failed";
+  stage: CreationStage;
+  events: CreationEvent[];
+  containerId?: string;
+  project?: ProjectInfo;
+  port?: number;
+  url?: string;
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export type CreationListener = (
+  update:
+    | { type: "progress"; event: CreationEvent }
+    | { type: "complete" | "error"; job: CreationJob }
+) => void;
+
+const MAX_EVENTS = 500;
+const DEV_SERVER_TIMEOUT_MS = 2 * 60 * 1000;
+const DEV_SERVER_POLL_MS = 1000;
+// Finished jobs are kept a while so a client that reconnects still gets the result
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+const jobs = new Map<string, CreationJob>();
+const listeners = new Map<string, Set<CreationListener>>();
+
+function notify(jobId: string, update: Parameters<CreationListener>[0]): void {
+  for (const listener of listeners.get(jobId) || []) {
+    try {
+      listener(update);
+    } catch (error) {
+      console.error(`Creation listener for ${jobId} failed:`, error);
+    }
+  }
+}
+
+function addEvent(
+  job: CreationJob,
+  stage: CreationStage,
+  message: string
+): void {
+  const event: CreationEvent = {
+    stage,
+    message,
+    timestamp: new Date().toISOString(),
+  };
+
+  job.stage = stage;
+  job.events.push(event);
+  if (job.events.length > MAX_EVENTS) {
+    job.events.splice(0, job.events.length - MAX_EVENTS);
+  }
+
+  notify(job.id, { type: "progress", event });
+}
+
+function finishJob(job: CreationJob, error?: unknown): void {
+  job.status = error ? "failed" : "completed";
+  job.finishedAt = new Date().toISOString();
+  if (error) {
+    job.error = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[CREATE] ${job.id} failed:`, job.error);
+  } else {
+    console.log(`[CREATE] ${job.id} created project ${job.containerId}`);
+  }
+
+  notify(job.id, { type: error ? "error" : "complete", job });
+  listeners.delete(job.id);
+
+  setTimeout(() => jobs.delete(job.id), FINISHED_JOB_TTL_MS).unref?.();
+}
+
+// Any HTTP response means the dev server is up, even an error page
+async function waitForDevServer(port: number): Promise<boolean> {
+  const deadline = Date.now() + DEV_SERVER_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    try {
+      await fetch(`http://localhost:${port}`, {
+        signal: AbortSignal.timeout(DEV_SERVER_POLL_MS * 5),
+      });
+      return true;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, DEV_SERVER_POLL_MS));
+    }
+  }
+
+  return false;
+}
+
+// A failed creation leaves no container or project record behind
+async function removeFailedProject(job: CreationJob): Promise<void> {
+  if (!job.containerId) {
+    return;
+  }
+
+  try {
+    await dockerService.deleteContainer(job.containerId);
+    console.log(`[CREATE] ${job.id} removed container ${job.containerId}`);
+  } catch (error) {
+    console.error(
+      `[CREATE] ${job.id} could not remove container ${job.containerId}:`,
+      error
+    );
+  }
+
+  delete job.containerId;
+  delete job.project;
+  delete job.port;
+  delete job.url;
+}
+
+async function startProject(
+  job: CreationJob,
+  template: TemplateManifest,
+  imageName: string,
+  details: { name?: string; description?: string; prompt?: string }
+): Promise<void> {
+  const { container, port } = await dockerService.createContainer(
+    imageName,
+    uuidv4(),
+    template
+  );
+  job.containerId = container.id;
+  job.port = port;
+  job.url = `http://localhost:${port}`;
+  job.project = projectService.createProject(container.id, {
+    ...details,
+    templateId: template.id,
+  });
+  addEvent(job, "container", `Container started on port ${port}`);
+
+  addEvent(job, "dev-server", `Waiting for \`${template.devCommand}\``);
+  let stopLogs: (() => void) | undefined;
+  try {
+    stopLogs = await dockerService.streamContainerLogs(
+      container.id,
+      { follow: true, tail: 50 },
+      (entry) => addEvent(job, "dev-server", entry.message),
+      () => {}
+    );
+  } catch (error) {
+    console.warn(`Could not follow the logs of ${container.id}:`, error);
+  }
+
+  try {
+    if (!(await waitForDevServer(port))) {
+      throw new Error(
+        `Dev server did not start within ${DEV_SERVER_TIMEOUT_MS / 1000} seconds`
+      );
+    }
+    addEvent(job, "ready", "Dev server is ready");
+  } finally {
+    stopLogs?.();
+  }
+}
+
+async function runJob(
+  job: CreationJob,
+  template: TemplateManifest,
+  details: { name?: string; description?: string; prompt?: string }
+): Promise<void> {
+  addEvent(job, "image", `Preparing the ${template.name} base image`);
+  const imageName = await dockerService.ensureBaseImage(template, (progress) =>
+    addEvent(job, progress.stage, progress.message)
+  );
+  addEvent(job, "image", `Base image ready: ${imageName}`);
+
+  addEvent(job, "container", "Starting the project container");
+  try {
+    await startProject(job, template, imageName, details);
+  } catch (error) {
+    await removeFailedProject(job);
+    throw error;
+  }
+}
+
+export function startCreation(
+  template: TemplateManifest,
+  details: { name?: string; description?: string; prompt?: string } = {}
+): CreationJob {
+  const job: CreationJob = {
+    id: uuidv4(),
+    templateId: template.id,
+    status: "running",
+    stage: "queued",
+    events: [],
+    createdAt: new Date().toISOString(),
+  };
+  jobs.set(job.id, job);
+  console.log(`[CREATE] ${job.id} creating a ${template.name} project`);
+
+  runJob(job, template, details).then(
+    () => finishJob(job),
+    (error) => finishJob(job, error)
+  );
+
+  return job;
+}
+
+export function getJob(jobId: string): CreationJob | undefined {
+  return jobs.get(jobId);
+}
+
+export function subscribe(
+  jobId: string,
+  listener: CreationListener
+): () => void {
+  const jobListeners = listeners.get(jobId) || new Set();
+  jobListeners.add(listener);
+  listeners.set(jobId, jobListeners);
+
+  return () => {
+    jobListeners.delete(listener);
+    if (jobListeners.size === 0) {
+      listeners.delete(jobId);
+    }
+  };
+}
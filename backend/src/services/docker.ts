@@ -1,8 +1,17 @@
 import { exec } from "child_process";
+import { createHash } from "crypto";
 import Docker from "dockerode";
 import fs from "fs/promises";
 import path from "path";
+import { PassThrough, Readable, Writable } from "stream";
 import { promisify } from "util";
+import { config } from "../../config";
+import * as checkpointService from "./checkpoint";
+import * as consoleService from "./console";
+import * as projectService from "./projects";
+import * as sessionService from "./session";
+import * as templateService from "./templates";
+import * as terminalService from "./terminal";
 
 const execAsync = promisify(exec);
 const docker = new Docker();
@@ -10,19 +19,43 @@ const BASE_PORT = 8000;
 
 const usedPorts = new Set<number>();
 
+export interface ImageBuildProgress {
+  // Output of the dependency install step is reported apart from the other build steps
+  stage: "image" | "install";
+  message: string;
+}
+
+export interface ContainerLogEntry {
+  stream: "stdout" | "stderr";
+  message: string;
+  timestamp: string;
+}
+
+const CONTAINER_PREFIX = "dec-project-";
+// Containers, project images and base images made before templates other than Next.js
+const LEGACY_PREFIX = "dec-nextjs-";
+
+function isProjectContainer(container: Docker.ContainerInfo): boolean {
+  return (
+    container.Labels?.project === "december" ||
+    Boolean(
+      container.Names?.some(
+        (name) =>
+          name.includes(CONTAINER_PREFIX) || name.includes(LEGACY_PREFIX)
+      )
+    )
+  );
+}
+
 async function getAllAssignedPorts(): Promise<number[]> {
   const containers = await docker.listContainers({ all: true });
-  const projectContainers = containers.filter(
-    (container) =>
-      container.Labels?.project === "december" ||
-      container.Names?.some((name) => name.includes("dec-nextjs-"))
-  );
+  const projectContainers = containers.filter(isProjectContainer);
 
   return projectContainers
     .map((container) => {
       const assignedPort = container.Labels?.assignedPort
         ? parseInt(container.Labels.assignedPort)
-        : container.Ports?.find((p) => p.PrivatePort === 3000)?.PublicPort;
+        : container.Ports?.find((p) => p.PublicPort)?.PublicPort;
       return assignedPort || null;
     })
     .filter((port): port is number => port !== null);
@@ -56,35 +89,146 @@ function releasePort(port: number): void {
   usedPorts.delete(port);
 }
 
+// Files copied into the image next to the Dockerfile, they are part of the image hash
+const BUILD_CONTEXT_FILES = ["preview-console.js"];
+const BASE_IMAGE_REPOSITORY = "dec-project-base";
+const LEGACY_BASE_IMAGE_REPOSITORY = `${LEGACY_PREFIX}base`;
+
+const baseImageBuilds = new Map<
+  string,
+  {
+    image: Promise<string>;
+    listeners: Set<(progress: ImageBuildProgress) => void>;
+  }
+>();
+
 export async function getDockerfile(): Promise<string> {
   return await fs.readFile("./src/Dockerfile", "utf-8");
 }
 
-export async function buildImage(containerId: string): Promise<string> {
-  const tempDir = path.join("/tmp", `docker-app-${containerId}`);
+// Everything the Dockerfile needs to know about the template
+function getBuildArgs(
+  template: templateService.TemplateManifest
+): Record<string, string> {
+  return {
+    BASE_PATH: template.basePath,
+    CONSOLE_SCRIPT: template.consoleScript,
+    INSTALL_COMMAND: templateService.getPackageCommands(template).install,
+    PACKAGE_CACHE: templateService.getPackageCommands(template).cache,
+    DEV_COMMAND: template.devCommand,
+    PORT: template.port.toString(),
+    SYSTEM_PACKAGES: template.systemPackages.join(" "),
+    GIT_IGNORE: template.ignore.join(" "),
+  };
+}
+
+async function getBaseImageName(
+  template: templateService.TemplateManifest
+): Promise<string> {
+  const templateDir = templateService.getTemplateDir(template.id);
+  const files = await templateService.listTemplateFiles(template);
+
+  if (files.length === 0) {
+    throw new Error(`Template "${template.id}" has no files in ${templateDir}`);
+  }
+
+  const hash = createHash("sha256")
+    .update(await getDockerfile())
+    .update(JSON.stringify(getBuildArgs(template)));
+  for (const file of BUILD_CONTEXT_FILES) {
+    hash.update(await fs.readFile(path.join("./src/utils", file)));
+  }
+
+  // The package cache only speeds up installs, so it is not part of the hash
+  for (const file of files) {
+    hash.update(file);
+    hash.update(await fs.readFile(path.join(templateDir, file)));
+  }
+
+  return `${BASE_IMAGE_REPOSITORY}:${template.id}-${hash.digest("hex").slice(0, 12)}`;
+}
+
+// Only the part of the cache for the template's package manager goes into the build context
+async function copyPackageCache(
+  target: string,
+  template: templateService.TemplateManifest
+): Promise<void> {
+  await fs.mkdir(target, { recursive: true });
+
+  if (!config.templates.packageCache) {
+    return;
+  }
+  const cacheDir = path.join(
+    config.templates.packageCache,
+    template.packageManager
+  );
+
+  try {
+    await fs.cp(path.resolve(cacheDir), target, { recursive: true });
+    console.log(`Using package cache from ${cacheDir}`);
+  } catch {
+    console.log(
+      `No package cache found in ${cacheDir}, packages are downloaded during the build`
+    );
+  }
+}
+
+async function buildImage(
+  imageName: string,
+  template: templateService.TemplateManifest,
+  onProgress: (progress: ImageBuildProgress) => void
+): Promise<void> {
+  const tempDir = path.join(
+    "/tmp",
+    `docker-app-${imageName.replace(/[^a-z0-9-]/gi, "-")}`
+  );
   await fs.mkdir(tempDir, { recursive: true });
 
   try {
     const dockerfileContent = await getDockerfile();
     await fs.writeFile(path.join(tempDir, "Dockerfile"), dockerfileContent);
+    for (const file of BUILD_CONTEXT_FILES) {
+      await fs.copyFile(
+        path.join("./src/utils", file),
+        path.join(tempDir, file)
+      );
+    }
+    const templateDir = templateService.getTemplateDir(template.id);
+    for (const file of await templateService.listTemplateFiles(template)) {
+      const target = path.join(tempDir, "template", file);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.copyFile(path.join(templateDir, file), target);
+    }
+    await copyPackageCache(path.join(tempDir, "package-cache"), template);
 
-    const imageName = `dec-nextjs-${containerId}`;
     console.log(`Building image: ${imageName}`);
 
     const tarStream = await docker.buildImage(
       {
         context: tempDir,
-        src: ["Dockerfile"],
+        src: [
+          "Dockerfile",
+          ...BUILD_CONTEXT_FILES,
+          "template",
+          "package-cache",
+        ],
       },
       {
         t: imageName,
         rm: true,
         forcerm: true,
+        buildargs: getBuildArgs(template),
+        labels: {
+          project: "december",
+          type: "base-image",
+          template: template.id,
+        },
       }
     );
 
     await new Promise<void>((resolve, reject) => {
       let buildOutput = "";
+      let stage: ImageBuildProgress["stage"] = "image";
 
       docker.modem.followProgress(
         tarStream,
@@ -102,6 +246,14 @@ export async function buildImage(containerId: string): Promise<string> {
           if (event.stream) {
             buildOutput += event.stream;
             console.log("Build:", event.stream.trim());
+
+            const message = event.stream.trim();
+            if (message.startsWith("Step ")) {
+              stage = message.includes("INSTALL_COMMAND") ? "install" : "image";
+            }
+            if (message) {
+              onProgress({ stage, message });
+            }
           }
           if (event.error) {
             console.error("Build step error:", event.error);
@@ -114,40 +266,118 @@ export async function buildImage(containerId: string): Promise<string> {
     const image = docker.getImage(imageName);
     await image.inspect();
     console.log(`Image ${imageName} created successfully`);
-
+  } finally {
     await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+// Base images of older template or Dockerfile versions that no project uses anymore
+async function removeOutdatedBaseImages(
+  currentImage: string,
+  template: string
+): Promise<void> {
+  const images = await docker.listImages({
+    filters: {
+      reference: [BASE_IMAGE_REPOSITORY, LEGACY_BASE_IMAGE_REPOSITORY],
+      label: [`template=${template}`],
+    },
+  });
+
+  for (const image of images) {
+    if (image.RepoTags?.includes(currentImage)) continue;
+
+    try {
+      await docker.getImage(image.Id).remove();
+      console.log(`Removed outdated base image: ${image.RepoTags?.join(", ")}`);
+    } catch {
+      // Still used by an existing project
+    }
+  }
+}
+
+// Every project of a template starts from the same image, it is only rebuilt
+// when the template, the Dockerfile or the files copied into it change
+export async function ensureBaseImage(
+  template: templateService.TemplateManifest = templateService.getDefaultTemplate(),
+  onProgress?: (progress: ImageBuildProgress) => void
+): Promise<string> {
+  const pendingBuild = baseImageBuilds.get(template.id);
+  if (pendingBuild) {
+    // Projects created while the image builds follow the same build
+    if (onProgress) pendingBuild.listeners.add(onProgress);
+    try {
+      return await pendingBuild.image;
+    } finally {
+      if (onProgress) pendingBuild.listeners.delete(onProgress);
+    }
+  }
+
+  const listeners = new Set<(progress: ImageBuildProgress) => void>();
+  if (onProgress) listeners.add(onProgress);
+
+  const image = (async () => {
+    const imageName = await getBaseImageName(template);
+
+    try {
+      await docker.getImage(imageName).inspect();
+      return imageName;
+    } catch {
+      console.log(`Base image ${imageName} not found, building it`);
+    }
+
+    await buildImage(imageName, template, (progress) =>
+      listeners.forEach((listener) => listener(progress))
+    );
+    await removeOutdatedBaseImages(imageName, template.id).catch((error) =>
+      console.warn("Could not remove outdated base images:", error)
+    );
     return imageName;
-  } catch (error) {
-    await fs.rm(tempDir, { recursive: true, force: true });
-    throw error;
+  })();
+
+  baseImageBuilds.set(template.id, { image, listeners });
+  try {
+    return await image;
+  } finally {
+    baseImageBuilds.delete(template.id);
   }
 }
 
 export async function createContainer(
   imageName: string,
-  containerId: string
+  containerId: string,
+  template: templateService.TemplateManifest
 ): Promise<{ container: Docker.Container; port: number }> {
-  const containerName = `dec-nextjs-${containerId}`;
+  const containerName = `${CONTAINER_PREFIX}${containerId}`;
   const assignedPort = await findAvailablePort();
+  const containerPort = `${template.port}/tcp`;
 
   console.log(`Creating container: ${containerName} on port ${assignedPort}`);
 
   const container = await docker.createContainer({
     Image: imageName,
     name: containerName,
-    ExposedPorts: { "3000/tcp": {} },
+    ExposedPorts: { [containerPort]: {} },
     HostConfig: {
-      PortBindings: { "3000/tcp": [{ HostPort: assignedPort.toString() }] },
+      PortBindings: {
+        [containerPort]: [{ HostPort: assignedPort.toString() }],
+      },
     },
     Labels: {
       project: "december",
-      type: "nextjs-app",
+      type: "project",
+      template: template.id,
       assignedPort: assignedPort.toString(),
     },
   });
 
   console.log(`Starting container: ${container.id}`);
-  await container.start();
+  try {
+    await container.start();
+  } catch (error) {
+    releasePort(assignedPort);
+    await container.remove({ force: true }).catch(() => {});
+    throw error;
+  }
 
   return { container, port: assignedPort };
 }
@@ -194,7 +424,10 @@ export async function startContainer(
 }
 
 function getPortFromContainer(containerInfo: any): number {
-  const portBindings = containerInfo.HostConfig?.PortBindings?.["3000/tcp"];
+  // Projects only publish the dev server port of their template
+  const portBindings: any[] | undefined = Object.values(
+    containerInfo.HostConfig?.PortBindings || {}
+  )[0] as any[] | undefined;
   if (portBindings && portBindings[0]?.HostPort) {
     const port = parseInt(portBindings[0].HostPort);
     usedPorts.add(port);
@@ -211,39 +444,123 @@ function getPortFromContainer(containerInfo: any): number {
   throw new Error("Could not determine container port");
 }
 
-export async function cleanupImage(containerId: string): Promise<void> {
-  try {
-    const imageName = `dec-nextjs-${containerId}`;
-    const image = docker.getImage(imageName);
-    await image.remove({ force: true });
-    console.log(`Cleaned up failed image: ${imageName}`);
-  } catch (cleanupError) {}
-}
-
 export function getContainer(containerId: string): Docker.Container {
   return docker.getContainer(containerId);
 }
 
 export { docker };
 
+function createLogWriter(
+  stream: ContainerLogEntry["stream"],
+  onLog: (entry: ContainerLogEntry) => void
+): { writable: Writable; flush: () => void } {
+  let pending = "";
+
+  const emit = (line: string) => {
+    const match = line.match(/^(\d{4}-\d{2}-\d{2}T\S+Z) ?(.*)$/);
+    onLog({
+      stream,
+      message: (match ? match[2]! : line).replace(/\r$/, ""),
+      timestamp: match ? match[1]! : new Date().toISOString(),
+    });
+  };
+
+  const writable = new Writable({
+    write(chunk, _encoding, callback) {
+      const lines = (pending + chunk.toString("utf-8")).split("\n");
+      pending = lines.pop() || "";
+      lines.forEach(emit);
+      callback();
+    },
+  });
+
+  return {
+    writable,
+    flush: () => {
+      if (pending) {
+        emit(pending);
+        pending = "";
+      }
+    },
+  };
+}
+
+export async function streamContainerLogs(
+  containerId: string,
+  options: { follow?: boolean; tail?: number },
+  onLog: (entry: ContainerLogEntry) => void,
+  onEnd: () => void
+): Promise<() => void> {
+  const container = docker.getContainer(containerId);
+  const logOptions = {
+    stdout: true,
+    stderr: true,
+    timestamps: true,
+    tail: options.tail ?? 200,
+  };
+
+  let source: Readable;
+  if (options.follow) {
+    source = (await container.logs({
+      ...logOptions,
+      follow: true,
+    })) as Readable;
+  } else {
+    const output = await container.logs({ ...logOptions, follow: false });
+    source = new PassThrough();
+    (source as PassThrough).end(output);
+  }
+
+  const stdout = createLogWriter("stdout", onLog);
+  const stderr = createLogWriter("stderr", onLog);
+  docker.modem.demuxStream(source, stdout.writable, stderr.writable);
+
+  let ended = false;
+  const finish = () => {
+    if (ended) return;
+    ended = true;
+    stdout.flush();
+    stderr.flush();
+    onEnd();
+  };
+
+  source.on("end", finish);
+  source.on("close", finish);
+  source.on("error", (error) => {
+    console.error(`Log stream error for ${containerId}:`, error);
+    finish();
+  });
+
+  return () => {
+    ended = true;
+    source.destroy();
+  };
+}
+
 export async function listProjectContainers(): Promise<any[]> {
   const containers = await docker.listContainers({ all: true });
 
-  const projectContainers = containers.filter(
-    (container) =>
-      container.Labels?.project === "december" ||
-      container.Names?.some((name) => name.includes("dec-nextjs-"))
-  );
+  const projectContainers = containers.filter(isProjectContainer);
 
   return projectContainers.map((container) => {
     const assignedPort = container.Labels?.assignedPort
       ? parseInt(container.Labels.assignedPort)
-      : container.Ports?.find((p) => p.PrivatePort === 3000)?.PublicPort ||
-        null;
+      : container.Ports?.find((p) => p.PublicPort)?.PublicPort || null;
+
+    const containerName = container.Names?.[0]?.replace("/", "");
+    const project = projectService.getProject(container.Id);
+    const template = templateService.getProjectTemplate(container.Id);
 
     return {
       id: container.Id,
-      name: container.Names?.[0]?.replace("/", ""),
+      name: project?.name || containerName,
+      containerName,
+      description: project?.description || "",
+      templateId: template.id,
+      template: template.name,
+      prompt: project?.prompt,
+      updatedAt: project?.updatedAt,
+      lastOpenedAt: project?.lastOpenedAt,
       status: container.State,
       image: container.Image,
       created: new Date(container.Created * 1000).toISOString(),
@@ -267,6 +584,7 @@ export async function stopContainer(containerId: string): Promise<void> {
 
     const port = getPortFromContainer(containerInfo);
     releasePort(port);
+    terminalService.closeContainerTerminals(containerId);
 
     await container.stop();
     console.log(`Stopped container: ${containerId}, released port: ${port}`);
@@ -287,6 +605,8 @@ export async function deleteContainer(containerId: string): Promise<void> {
     const port = getPortFromContainer(containerInfo);
     releasePort(port);
 
+    terminalService.closeContainerTerminals(containerId);
+
     if (containerInfo.State.Running) {
       console.log(`Stopping container before deletion: ${containerId}`);
       await container.stop();
@@ -295,8 +615,18 @@ export async function deleteContainer(containerId: string): Promise<void> {
     await container.remove({ force: true });
     console.log(`Deleted container: ${containerId}, freed port: ${port}`);
 
+    sessionService.deleteContainerSessions(containerId);
+    projectService.deleteProject(containerId);
+    await checkpointService.deleteContainerCheckpoints(containerId);
+    consoleService.clearLogs(containerId);
+
+    // Projects created before the shared base image have an image of their own
     const imageName = containerInfo.Config.Image;
-    if (imageName && imageName.includes("dec-nextjs-")) {
+    if (
+      imageName &&
+      imageName.includes(LEGACY_PREFIX) &&
+      !imageName.startsWith(LEGACY_BASE_IMAGE_REPOSITORY)
+    ) {
       try {
         const image = docker.getImage(imageName);
         await image.remove({ force: true });
@@ -2,6 +2,7 @@ import { exec } from "child_process";
 import fs from "fs/promises";
 import path from "path";
 import { promisify } from "util";
+import * as templateService from "./templates";
 
 const execAsync = promisify(exec);
 
@@ -10,23 +11,22 @@ export async function exportContainerCode(
 ): Promise<Buffer> {
   const tempDir = `/tmp/export-${containerId}-${Date.now()}`;
   const zipPath = `${tempDir}.zip`;
+  const template = templateService.getProjectTemplate(containerId);
 
   try {
     await fs.mkdir(tempDir, { recursive: true });
 
-    const copyCommand = `docker cp ${containerId}:/app/my-nextjs-app/. ${tempDir}/`;
+    const copyCommand = `docker cp ${containerId}:${template.basePath}/. ${tempDir}/`;
     await execAsync(copyCommand);
 
-    const nodeModulesPath = path.join(tempDir, "node_modules");
-    const nextPath = path.join(tempDir, ".next");
-
-    try {
-      await fs.rm(nodeModulesPath, { recursive: true, force: true });
-    } catch {}
-
-    try {
-      await fs.rm(nextPath, { recursive: true, force: true });
-    } catch {}
+    for (const entry of template.ignore) {
+      try {
+        await fs.rm(path.join(tempDir, entry), {
+          recursive: true,
+          force: true,
+        });
+      } catch {}
+    }
 
     const zipCommand = `cd ${tempDir} && zip -r ${zipPath} . -x "*.DS_Store"`;
     await execAsync(zipCommand);
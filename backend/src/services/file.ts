@@ -1,14 +1,38 @@
-import { exec } from "child_process";
+import { execFile } from "child_process";
 import Docker from "dockerode";
 import fs from "fs/promises";
+import { PassThrough } from "stream";
 import { promisify } from "util";
 import { v4 as uuidv4 } from "uuid";
+import * as templateService from "./templates";
 
-const execAsync = promisify(exec);
-const BASE_PATH = "/app/my-nextjs-app";
+const execFileAsync = promisify(execFile);
 
-function getAbsolutePath(filePath: string): string {
-  return filePath.startsWith("/") ? filePath : `${BASE_PATH}/${filePath}`;
+export function getAbsolutePath(containerId: string, filePath: string): string {
+  return filePath.startsWith("/")
+    ? filePath
+    : `${templateService.getProjectTemplate(containerId).basePath}/${filePath}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Lists every file and folder below containerPath, leaving out the excluded
+// names and paths like "node_modules" or "components/ui"
+function getFindCommand(containerPath: string, excluded: string[]): string {
+  if (excluded.length === 0) {
+    return `find ${containerPath} -type f -o -type d | sort`;
+  }
+
+  const prune = excluded
+    .map((entry) =>
+      entry.includes("/") ? `-path "*/${entry}"` : `-name "${entry}"`
+    )
+    .join(" -o ");
+  const pattern = excluded.map(escapeRegExp).join("|");
+
+  return `find ${containerPath} \\( ${prune} \\) -prune -o -type f -o -type d | grep -v -E "(${pattern})" | sort`;
 }
 
 export interface FileItem {
@@ -30,14 +54,16 @@ export interface FileContentItem {
 export async function getFileTree(
   docker: Docker,
   containerId: string,
-  containerPath: string = BASE_PATH
+  containerPath?: string
 ): Promise<FileItem[]> {
   const container = docker.getContainer(containerId);
+  const template = templateService.getProjectTemplate(containerId);
+  containerPath ??= template.basePath;
 
   const findCommand = [
     "sh",
     "-c",
-    `find ${containerPath} \\( -name node_modules -o -name .next \\) -prune -o -type f -o -type d | grep -v -E "(node_modules|\\.next)" | sort`,
+    getFindCommand(containerPath, templateService.getIgnoredPaths(template)),
   ];
 
   const exec = await container.exec({
@@ -101,14 +127,19 @@ export async function getFileTree(
 export async function getFileContentTree(
   docker: Docker,
   containerId: string,
-  containerPath: string = BASE_PATH
+  containerPath?: string
 ): Promise<FileContentItem[]> {
   const container = docker.getContainer(containerId);
+  const template = templateService.getProjectTemplate(containerId);
+  containerPath ??= template.basePath;
 
   const findCommand = [
     "sh",
     "-c",
-    `find ${containerPath} \\( -name node_modules -o -name .next -o -path "*/components/ui" \\) -prune -o -type f -o -type d | grep -v -E "(node_modules|\\.next|components/ui|bun\\.lock|components\\.json|next-env\\.d\\.ts|package-lock\\.json|postcss\\.config\\.mjs|favicon\\.ico|\\.gitignore)" | sort`,
+    getFindCommand(containerPath, [
+      ...templateService.getIgnoredPaths(template),
+      ...template.contextExclude,
+    ]),
   ];
 
   const exec = await container.exec({
@@ -304,9 +335,10 @@ export async function readFile(
 export async function listFiles(
   docker: Docker,
   containerId: string,
-  containerPath: string = BASE_PATH
+  containerPath?: string
 ): Promise<any[]> {
   const container = docker.getContainer(containerId);
+  containerPath ??= templateService.getProjectTemplate(containerId).basePath;
   const exec = await container.exec({
     Cmd: ["ls", "-la", containerPath],
     AttachStdout: true,
@@ -343,6 +375,52 @@ export async function listFiles(
     .filter((item) => item.name !== "." && item.name !== "..");
 }
 
+export async function searchFiles(
+  docker: Docker,
+  containerId: string,
+  query: string,
+  maxResults: number = 50
+): Promise<string[]> {
+  const container = docker.getContainer(containerId);
+  const template = templateService.getProjectTemplate(containerId);
+  const exec = await container.exec({
+    Cmd: [
+      "grep",
+      "-rInF",
+      ...templateService
+        .getIgnoredPaths(template)
+        .map((entry) => `--exclude-dir=${entry}`),
+      "--",
+      query,
+      ".",
+    ],
+    WorkingDir: template.basePath,
+    AttachStdout: true,
+    AttachStderr: true,
+  });
+
+  const stream = await exec.start({ Detach: false, Tty: false });
+  const stdout = new PassThrough();
+  const chunks: Buffer[] = [];
+  stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+  await new Promise<void>((resolve, reject) => {
+    docker.modem.demuxStream(stream, stdout, new PassThrough());
+    stream.on("end", () => resolve());
+    stream.on("error", reject);
+  });
+
+  return Buffer.concat(chunks)
+    .toString("utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .slice(0, maxResults)
+    .map((line) => {
+      const result = line.replace(/^\.\//, "");
+      return result.length > 200 ? `${result.slice(0, 200)}...` : result;
+    });
+}
+
 export async function writeFile(
   containerId: string,
   filePath: string,
@@ -356,13 +434,13 @@ export async function writeFile(
     await fs.writeFile(tempFile, content, "utf8");
     console.log(`Temporary file created: ${tempFile}`);
 
-    const absolutePath = getAbsolutePath(filePath);
+    const absolutePath = getAbsolutePath(containerId, filePath);
     console.log(`Target path: ${absolutePath}`);
 
     try {
-      const copyCommand = `docker cp "${tempFile}" "${containerId}:${absolutePath}"`;
-      console.log(`Executing: ${copyCommand}`);
-      const { stdout, stderr } = await execAsync(copyCommand);
+      const copyArgs = ["cp", tempFile, `${containerId}:${absolutePath}`];
+      console.log(`Executing: docker ${copyArgs.join(" ")}`);
+      const { stdout, stderr } = await execFileAsync("docker", copyArgs);
 
       if (stderr) {
         console.log(`Copy stderr: ${stderr}`);
@@ -376,16 +454,16 @@ export async function writeFile(
       console.log("Copy failed, trying to create directory first:", copyError);
 
       const dirPath = absolutePath.substring(0, absolutePath.lastIndexOf("/"));
-      const createDirCommand = `docker exec "${containerId}" mkdir -p "${dirPath}"`;
-      console.log(`Executing: ${createDirCommand}`);
+      const createDirArgs = ["exec", containerId, "mkdir", "-p", dirPath];
+      console.log(`Executing: docker ${createDirArgs.join(" ")}`);
 
-      await execAsync(createDirCommand);
+      await execFileAsync("docker", createDirArgs);
       console.log("Directory created");
 
-      const retryCommand = `docker cp "${tempFile}" "${containerId}:${absolutePath}"`;
-      console.log(`Retrying: ${retryCommand}`);
+      const retryArgs = ["cp", tempFile, `${containerId}:${absolutePath}`];
+      console.log(`Retrying: docker ${retryArgs.join(" ")}`);
 
-      const { stdout, stderr } = await execAsync(retryCommand);
+      const { stdout, stderr } = await execFileAsync("docker", retryArgs);
       if (stderr) {
         console.log(`Retry stderr: ${stderr}`);
       }
@@ -397,8 +475,14 @@ export async function writeFile(
     }
 
     try {
-      const verifyCommand = `docker exec "${containerId}" head -n 5 "${absolutePath}"`;
-      const { stdout: verifyOutput } = await execAsync(verifyCommand);
+      const { stdout: verifyOutput } = await execFileAsync("docker", [
+        "exec",
+        containerId,
+        "head",
+        "-n",
+        "5",
+        absolutePath,
+      ]);
       console.log(`File verification (first 5 lines):\n${verifyOutput}`);
     } catch (verifyError) {
       console.log("Could not verify file content:", verifyError);
@@ -422,22 +506,32 @@ export async function renameFile(
   oldPath: string,
   newPath: string
 ): Promise<void> {
-  const absoluteOldPath = getAbsolutePath(oldPath);
-  const absoluteNewPath = getAbsolutePath(newPath);
+  const absoluteOldPath = getAbsolutePath(containerId, oldPath);
+  const absoluteNewPath = getAbsolutePath(containerId, newPath);
 
   const newDir = absoluteNewPath.substring(0, absoluteNewPath.lastIndexOf("/"));
-  const createDirCommand = `docker exec "${containerId}" mkdir -p "${newDir}"`;
-  await execAsync(createDirCommand);
-
-  const moveCommand = `docker exec "${containerId}" mv "${absoluteOldPath}" "${absoluteNewPath}"`;
-  await execAsync(moveCommand);
+  await execFileAsync("docker", ["exec", containerId, "mkdir", "-p", newDir]);
+  await execFileAsync("docker", [
+    "exec",
+    containerId,
+    "mv",
+    "--",
+    absoluteOldPath,
+    absoluteNewPath,
+  ]);
 }
 
 export async function removeFile(
   containerId: string,
   filePath: string
 ): Promise<void> {
-  const absolutePath = getAbsolutePath(filePath);
-  const removeCommand = `docker exec "${containerId}" rm -rf "${absolutePath}"`;
-  await execAsync(removeCommand);
+  const absolutePath = getAbsolutePath(containerId, filePath);
+  await execFileAsync("docker", [
+    "exec",
+    containerId,
+    "rm",
+    "-rf",
+    "--",
+    absolutePath,
+  ]);
 }
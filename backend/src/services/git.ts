@@ -0,0 +1,110 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as templateService from "./templates";
+
+const execFileAsync = promisify(execFile);
+
+export interface GitCommit {
+  hash: string;
+  author: string;
+  date: string;
+  message: string;
+}
+
+async function git(containerId: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync(
+    "docker",
+    [
+      "exec",
+      "-w",
+      templateService.getProjectTemplate(containerId).basePath,
+      containerId,
+      "git",
+      ...args,
+    ],
+    { maxBuffer: 50 * 1024 * 1024 }
+  );
+  return stdout;
+}
+
+function assertValidRef(ref: string): void {
+  if (!ref || ref.startsWith("-") || !/^[\w./~^@{}-]+$/.test(ref)) {
+    throw new Error(`Invalid git ref: ${ref}`);
+  }
+}
+
+export async function commitAll(
+  containerId: string,
+  message: string
+): Promise<string | null> {
+  await git(containerId, ["add", "-A"]);
+
+  const status = await git(containerId, ["status", "--porcelain"]);
+  if (!status.trim()) {
+    return null;
+  }
+
+  await git(containerId, ["commit", "-m", message]);
+  const hash = (await git(containerId, ["rev-parse", "HEAD"])).trim();
+
+  console.log(`Committed ${hash.slice(0, 7)} in ${containerId}: ${message}`);
+  return hash;
+}
+
+export async function getLog(
+  containerId: string,
+  limit: number = 50
+): Promise<GitCommit[]> {
+  const output = await git(containerId, [
+    "log",
+    `-n${limit}`,
+    "--pretty=format:%H%x1f%an%x1f%aI%x1f%s",
+  ]);
+
+  return output
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [hash = "", author = "", date = "", message = ""] =
+        line.split("\x1f");
+      return { hash, author, date, message };
+    });
+}
+
+export async function getRecentlyChangedFiles(
+  containerId: string,
+  limit: number = 10
+): Promise<string[]> {
+  const output = await git(containerId, [
+    "log",
+    `-n${limit}`,
+    // Skip the initial commit, it contains every file of the template
+    "--min-parents=1",
+    "--name-only",
+    "--pretty=format:",
+  ]);
+
+  return [...new Set(output.split("\n").filter((line) => line.trim()))];
+}
+
+export async function getDiff(
+  containerId: string,
+  ref: string = "HEAD"
+): Promise<string> {
+  assertValidRef(ref);
+  return git(containerId, ["diff", ref, "--"]);
+}
+
+export async function checkout(
+  containerId: string,
+  ref: string
+): Promise<string | null> {
+  assertValidRef(ref);
+
+  const hash = (
+    await git(containerId, ["rev-parse", "--verify", `${ref}^{commit}`])
+  ).trim();
+
+  await git(containerId, ["read-tree", "--reset", "-u", hash]);
+  return commitAll(containerId, `Restore ${hash.slice(0, 7)}`);
+}
@@ -0,0 +1,126 @@
+import { config } from "../../config";
+import * as contextService from "./context";
+import * as modelService from "./models";
+import type { ChatSession, HistorySummary, Message } from "./session";
+import * as usageService from "./usage";
+
+const SUMMARY_PROMPT = `You summarize the conversation between a user and an AI assistant that builds a web project.
+Write a concise summary the assistant can continue the work from. Keep the user's goals and requirements, decisions that were made, what was built or changed and anything still open or broken.
+Leave out code. Only reply with the summary.`;
+
+function describeMessage(message: Message): string {
+  const content = message.content
+    .replace(
+      /<dec-write\s+(?:path|file_path)="([^"]+)"[^>]*>[\s\S]*?(<\/dec-write>|$)/g,
+      "[Wrote $1]"
+    )
+    .replace(
+      /<dec-edit\s+(?:path|file_path)="([^"]+)"[^>]*>[\s\S]*?(<\/dec-edit>|$)/g,
+      "[Edited $1]"
+    )
+    .replace(/<dec-code>[\s\S]*?(<\/dec-code>|$)/g, "")
+    .trim();
+
+  return `${message.role === "user" ? "User" : "Assistant"}: ${content}`;
+}
+
+function getChangedFiles(messages: Message[]): string[] {
+  return messages.flatMap((message) =>
+    (message.operations || [])
+      .filter((op) => op.status === "succeeded" && op.type !== "dependency")
+      .map((op) => op.target)
+  );
+}
+
+export function getActiveMessages(session: ChatSession): Message[] {
+  if (!session.summary) {
+    return session.messages;
+  }
+
+  const index = session.messages.findIndex(
+    (msg) => msg.id === session.summary!.lastMessageId
+  );
+
+  // The summarized messages were removed (e.g. by editing an earlier message)
+  if (index === -1) {
+    session.summary = undefined;
+    return session.messages;
+  }
+
+  return session.messages.slice(index + 1);
+}
+
+export function formatSummaryForPrompt(summary: HistorySummary): string {
+  const files =
+    summary.filesChanged.length > 0
+      ? `\n\nFiles changed so far:\n${summary.filesChanged
+          .map((file) => `- ${file}`)
+          .join("\n")}`
+      : "";
+
+  return `${summary.content}${files}`;
+}
+
+export async function compactHistory(
+  session: ChatSession,
+  modelId?: string
+): Promise<boolean> {
+  const activeMessages = getActiveMessages(session);
+  const tokens = contextService.estimateTokens(
+    activeMessages.map((msg) => msg.content).join("\n")
+  );
+
+  if (tokens <= config.history.compactAfterTokens) {
+    return false;
+  }
+
+  // Keep the latest messages as they are, starting the kept part at a user message
+  let splitIndex = activeMessages.length - config.history.keepRecentMessages;
+  while (splitIndex > 0 && activeMessages[splitIndex]?.role !== "user") {
+    splitIndex--;
+  }
+  if (splitIndex <= 0) {
+    return false;
+  }
+
+  const toSummarize = activeMessages.slice(0, splitIndex);
+  const previousSummary = session.summary
+    ? `Summary of the conversation before this:\n${session.summary.content}\n\n`
+    : "";
+
+  console.log(
+    `[HISTORY] Summarizing ${toSummarize.length} messages (~${tokens} tokens) for ${session.id}`
+  );
+
+  const { content, usage } = await modelService.createChatCompletion(modelId, [
+    { role: "system", content: SUMMARY_PROMPT },
+    {
+      role: "user",
+      content: `${previousSummary}${toSummarize.map(describeMessage).join("\n\n")}`,
+    },
+  ]);
+
+  usageService.recordUsage(
+    {
+      containerId: session.containerId,
+      sessionId: session.id,
+      kind: "summary",
+      model: modelId || modelService.DEFAULT_MODEL_ID,
+    },
+    usage
+  );
+
+  session.summary = {
+    content: content.trim(),
+    filesChanged: [
+      ...new Set([
+        ...(session.summary?.filesChanged || []),
+        ...getChangedFiles(toSummarize),
+      ]),
+    ],
+    lastMessageId: toSummarize[toSummarize.length - 1]!.id,
+    createdAt: new Date().toISOString(),
+  };
+
+  return true;
+}
@@ -0,0 +1,174 @@
+import { config } from "../../config";
+import * as usageService from "./usage";
+
+export type LimitScope = "project" | "global";
+export type LimitPeriod = "minute" | "day" | "month";
+
+export interface LimitStatus {
+  scope: LimitScope;
+  period: LimitPeriod;
+  metric: "requests" | "tokens" | "cost";
+  used: number;
+  limit: number;
+  state: "ok" | "warning" | "exceeded";
+  resetsAt: string;
+}
+
+interface BudgetLimits {
+  dailyTokens: number;
+  monthlyTokens: number;
+  dailyCost: number;
+  monthlyCost: number;
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+const requestTimes = new Map<string, number[]>();
+
+function getPeriodStart(period: "day" | "month", date = new Date()): Date {
+  return period === "day"
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate())
+    : new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+function getPeriodEnd(period: "day" | "month", date = new Date()): Date {
+  return period === "day"
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+    : new Date(date.getFullYear(), date.getMonth() + 1, 1);
+}
+
+function toStatus(status: Omit<LimitStatus, "state">): LimitStatus {
+  let state: LimitStatus["state"] = "ok";
+  if (status.used >= status.limit) {
+    state = "exceeded";
+  } else if (status.used >= status.limit * config.limits.warnAt) {
+    state = "warning";
+  }
+
+  return { ...status, state };
+}
+
+export function getLimitStatuses(containerId: string): LimitStatus[] {
+  const statuses: LimitStatus[] = [];
+
+  for (const scope of ["project", "global"] as const) {
+    const limits: BudgetLimits = config.limits[scope];
+
+    for (const period of ["day", "month"] as const) {
+      const tokenLimit =
+        period === "day" ? limits.dailyTokens : limits.monthlyTokens;
+      const costLimit =
+        period === "day" ? limits.dailyCost : limits.monthlyCost;
+      if (tokenLimit <= 0 && costLimit <= 0) continue;
+
+      const usage = usageService.getUsageSince(
+        getPeriodStart(period),
+        scope === "project" ? containerId : undefined
+      );
+      const resetsAt = getPeriodEnd(period).toISOString();
+
+      if (tokenLimit > 0) {
+        statuses.push(
+          toStatus({
+            scope,
+            period,
+            metric: "tokens",
+            used: usage.promptTokens + usage.completionTokens,
+            limit: tokenLimit,
+            resetsAt,
+          })
+        );
+      }
+
+      if (costLimit > 0) {
+        statuses.push(
+          toStatus({
+            scope,
+            period,
+            metric: "cost",
+            used: usage.cost,
+            limit: costLimit,
+            resetsAt,
+          })
+        );
+      }
+    }
+  }
+
+  return statuses;
+}
+
+function hasCostLimit(): boolean {
+  return (["project", "global"] as const).some((scope) => {
+    const limits: BudgetLimits = config.limits[scope];
+    return limits.dailyCost > 0 || limits.monthlyCost > 0;
+  });
+}
+
+// Usage of a model without a price costs nothing on record, so it could run
+// past every cost limit
+export function assertModelPriced(modelId: string): void {
+  if (hasCostLimit() && !usageService.getModelPrice(modelId)) {
+    throw new Error(
+      `The model ${modelId} has no price under usage.prices and can't be used while cost limits are on`
+    );
+  }
+}
+
+export function getExceededLimit(containerId: string): LimitStatus | undefined {
+  return getLimitStatuses(containerId).find(
+    (status) => status.state === "exceeded"
+  );
+}
+
+// Counts the request against the rate limit when it is allowed
+export function takeRequest(containerId: string): LimitStatus | undefined {
+  const limit: number = config.limits.requestsPerMinute;
+  if (limit <= 0) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  const times = (requestTimes.get(containerId) || []).filter(
+    (time) => time > now - RATE_WINDOW_MS
+  );
+
+  if (times.length >= limit) {
+    requestTimes.set(containerId, times);
+    return {
+      scope: "project",
+      period: "minute",
+      metric: "requests",
+      used: times.length,
+      limit,
+      state: "exceeded",
+      resetsAt: new Date(times[0]! + RATE_WINDOW_MS).toISOString(),
+    };
+  }
+
+  times.push(now);
+  requestTimes.set(containerId, times);
+  return undefined;
+}
+
+export function formatLimitError(status: LimitStatus): string {
+  if (status.metric === "requests") {
+    const seconds = Math.max(
+      1,
+      Math.ceil((new Date(status.resetsAt).getTime() - Date.now()) / 1000)
+    );
+    return `Too many messages for this project, try again in ${seconds} seconds`;
+  }
+
+  const scope =
+    status.scope === "project" ? "This project" : "All projects together";
+  const period = status.period === "day" ? "daily" : "monthly";
+  const limit =
+    status.metric === "cost"
+      ? `$${status.limit.toFixed(2)}`
+      : `${status.limit.toLocaleString()} tokens`;
+
+  return `${scope} reached the ${period} limit of ${limit}. It resets at ${new Date(
+    status.resetsAt
+  ).toLocaleString()}`;
+}
@@ -1,82 +1,147 @@
-import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 import { config } from "../../config";
 import prompt from "../utils/prompt.txt";
+import * as buildService from "./build";
+import * as checkpointService from "./checkpoint";
+import * as consoleService from "./console";
+import * as contextService from "./context";
 import * as dockerService from "./docker";
 import * as fileService from "./file";
+import * as gitService from "./git";
+import * as historyService from "./history";
+import * as limitService from "./limits";
+import * as modelService from "./models";
+import * as operationService from "./operations";
+import type { OperationResult } from "./operations";
+import * as sessionService from "./session";
+import * as templateService from "./templates";
+import type {
+  Attachment,
+  ChatSession,
+  Message,
+  MessageBranch,
+  ToolCallRecord,
+} from "./session";
+import * as toolService from "./tools";
+import * as usageService from "./usage";
 
-const openai = new OpenAI({
-  apiKey: config.aiSdk.apiKey,
-  baseURL: config.aiSdk.baseUrl || "https://api.openai.com/v1",
-});
+export type { Attachment, ChatSession, Message } from "./session";
 
-export interface Message {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  timestamp: string;
-  attachments?: Attachment[];
+export interface SendMessageOptions {
+  review?: boolean;
+  autoFix?: boolean;
+  model?: string;
+  openFiles?: string[];
+  sessionId?: string;
+  signal?: AbortSignal;
+  tools?: boolean;
 }
 
-export interface Attachment {
-  type: "image" | "document";
-  data: string;
-  name: string;
-  mimeType: string;
-  size: number;
-}
+export type ChatStreamEvent = {
+  type: "user" | "assistant" | "operation" | "tool" | "check" | "done";
+  data: any;
+};
 
-export interface ChatSession {
-  id: string;
-  containerId: string;
-  messages: Message[];
-  createdAt: string;
-  updatedAt: string;
+export interface PendingChange {
+  operationId: string;
+  type: OperationResult["type"];
+  path: string;
+  original: string;
+  proposed: string;
+  status: OperationResult["status"];
+  error?: string;
 }
 
-const chatSessions = new Map<string, ChatSession>();
+export const DEFAULT_SESSION_TITLE = "New chat";
+const MAX_TITLE_LENGTH = 60;
 
-export async function createChatSession(
-  containerId: string
-): Promise<ChatSession> {
+export function createChatSession(
+  containerId: string,
+  title?: string
+): ChatSession {
   const sessionId = `${containerId}-${Date.now()}`;
   const session: ChatSession = {
     id: sessionId,
     containerId,
+    title: title?.trim() || DEFAULT_SESSION_TITLE,
     messages: [],
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
 
-  chatSessions.set(sessionId, session);
+  sessionService.getSessionStore().save(session);
   return session;
 }
 
 export function getChatSession(sessionId: string): ChatSession | undefined {
-  return chatSessions.get(sessionId);
+  return sessionService.getSessionStore().get(sessionId);
 }
 
-export function getOrCreateChatSession(containerId: string): ChatSession {
-  const existingSession = Array.from(chatSessions.values()).find(
-    (session) => session.containerId === containerId
-  );
+export function listChatSessions(containerId: string): ChatSession[] {
+  return sessionService
+    .getSessionStore()
+    .findByContainer(containerId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getOrCreateChatSession(
+  containerId: string,
+  sessionId?: string
+): ChatSession {
+  if (sessionId) {
+    const session = getChatSession(sessionId);
+    if (!session || session.containerId !== containerId) {
+      throw new Error(`Chat session ${sessionId} not found`);
+    }
+    return session;
+  }
 
+  const existingSession = listChatSessions(containerId)[0];
   if (existingSession) {
     return existingSession;
   }
 
-  const sessionId = `${containerId}-${Date.now()}`;
-  const session: ChatSession = {
-    id: sessionId,
-    containerId,
-    messages: [],
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  };
+  return createChatSession(containerId);
+}
+
+export function renameChatSession(
+  containerId: string,
+  sessionId: string,
+  title: string
+): ChatSession {
+  const session = getOrCreateChatSession(containerId, sessionId);
 
-  chatSessions.set(sessionId, session);
+  session.title = title.trim().slice(0, MAX_TITLE_LENGTH) || session.title;
+  session.updatedAt = new Date().toISOString();
+  sessionService.getSessionStore().save(session);
   return session;
 }
 
+export function deleteChatSession(
+  containerId: string,
+  sessionId: string
+): void {
+  const session = getOrCreateChatSession(containerId, sessionId);
+  sessionService.getSessionStore().delete(session.id);
+}
+
+function addUserMessage(session: ChatSession, message: Message): void {
+  if (
+    (!session.title || session.title === DEFAULT_SESSION_TITLE) &&
+    session.messages.length === 0
+  ) {
+    const firstLine = message.content.trim().split("\n")[0] || "";
+    session.title =
+      firstLine.length > MAX_TITLE_LENGTH
+        ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 3)}...`
+        : firstLine || DEFAULT_SESSION_TITLE;
+  }
+
+  session.messages.push(message);
+  session.updatedAt = new Date().toISOString();
+  sessionService.getSessionStore().save(session);
+}
+
 function buildMessageContent(
   message: string,
   attachments: Attachment[] = []
@@ -105,12 +170,174 @@ function buildMessageContent(
   return content;
 }
 
+async function buildChatMessages(
+  containerId: string,
+  session: ChatSession,
+  options: SendMessageOptions = {}
+): Promise<ChatCompletionMessageParam[]> {
+  const lastUserMessage = [...session.messages]
+    .reverse()
+    .find((msg) => msg.role === "user");
+
+  const codeContext = await contextService.buildCodeContext(containerId, {
+    message: lastUserMessage?.content || "",
+    openFiles: options.openFiles,
+  });
+
+  const template = templateService.getProjectTemplate(containerId);
+  let systemPrompt = `${prompt}`;
+
+  if (template.prompt.trim()) {
+    systemPrompt += `
+
+This project uses the ${template.name} template:
+<template-guidelines>
+${template.prompt.trim()}
+</template-guidelines>`;
+  }
+
+  systemPrompt += `
+
+Current codebase structure and content:
+${codeContext}`;
+
+  const consoleLogs = consoleService.formatLogsForPrompt(containerId);
+  if (consoleLogs) {
+    systemPrompt += `
+
+Recent console output from the live preview:
+<console-logs>
+${consoleLogs}
+</console-logs>`;
+  }
+
+  try {
+    if (await historyService.compactHistory(session, options.model)) {
+      sessionService.getSessionStore().save(session);
+    }
+  } catch (error) {
+    console.error("Could not summarize chat history:", error);
+  }
+
+  if (session.summary) {
+    systemPrompt += `
+
+Summary of the earlier conversation with the user:
+<conversation-summary>
+${historyService.formatSummaryForPrompt(session.summary)}
+</conversation-summary>`;
+  }
+
+  return [
+    { role: "system" as const, content: systemPrompt },
+    ...historyService.getActiveMessages(session).map((msg) => ({
+      role: msg.role as "user" | "assistant",
+      content:
+        msg.role === "user" && msg.attachments
+          ? buildMessageContent(msg.content, msg.attachments)
+          : msg.content,
+    })),
+  ];
+}
+
+async function* applyMessageOperations(
+  containerId: string,
+  message: Message,
+  options: SendMessageOptions = {}
+): AsyncGenerator<OperationResult> {
+  const operations = operationService.parseOperations(message.content);
+  if (operations.length === 0) {
+    return;
+  }
+
+  await createMessageCheckpoint(containerId, message);
+  message.operations = [];
+
+  for await (const result of operationService.applyOperations(
+    containerId,
+    message.id,
+    operations,
+    options
+  )) {
+    const existingIndex = message.operations.findIndex(
+      (op) => op.id === result.id
+    );
+    if (existingIndex >= 0) {
+      message.operations[existingIndex] = result;
+    } else {
+      message.operations.push(result);
+    }
+
+    yield result;
+  }
+
+  await commitMessageChanges(containerId, message);
+}
+
+async function createMessageCheckpoint(
+  containerId: string,
+  message: Message
+): Promise<void> {
+  try {
+    message.checkpointId =
+      await checkpointService.createCheckpoint(containerId);
+  } catch (error) {
+    console.error(
+      "Could not create checkpoint before applying changes:",
+      error
+    );
+  }
+}
+
+async function commitMessageChanges(
+  containerId: string,
+  message: Message
+): Promise<void> {
+  try {
+    message.commitHash =
+      (await gitService.commitAll(containerId, getCommitMessage(message))) ??
+      undefined;
+  } catch (error) {
+    console.error("Could not commit assistant changes:", error);
+  }
+}
+
+function getCommitMessage(message: Message): string {
+  const summary = message.content
+    .replace(/<dec-code>[\s\S]*?(<\/dec-code>|$)/g, "")
+    .replace(/<[^>]+>/g, "")
+    .trim();
+
+  return summary || "Apply AI changes";
+}
+
+function selectModel(
+  session: ChatSession,
+  options: SendMessageOptions
+): string {
+  let modelId = options.model || session.model || modelService.DEFAULT_MODEL_ID;
+
+  try {
+    modelService.getModelProfile(modelId);
+  } catch (error) {
+    // A model picked for the project earlier may have been removed from the config
+    if (options.model) throw error;
+    modelId = modelService.DEFAULT_MODEL_ID;
+  }
+
+  limitService.assertModelPriced(modelId);
+  session.model = modelId;
+  return modelId;
+}
+
 export async function sendMessage(
   containerId: string,
   userMessage: string,
-  attachments: Attachment[] = []
+  attachments: Attachment[] = [],
+  options: SendMessageOptions = {}
 ): Promise<{ userMessage: Message; assistantMessage: Message }> {
-  const session = getOrCreateChatSession(containerId);
+  const session = getOrCreateChatSession(containerId, options.sessionId);
+  options = { ...options, model: selectModel(session, options) };
 
   const userMsg: Message = {
     id: `user-${Date.now()}`,
@@ -120,64 +347,463 @@ export async function sendMessage(
     attachments: attachments.length > 0 ? attachments : undefined,
   };
 
-  session.messages.push(userMsg);
+  addUserMessage(session, userMsg);
 
-  const fileContentTree = await fileService.getFileContentTree(
-    dockerService.docker,
-    containerId
+  const assistantMsg = await logStreamEvents(
+    streamAssistantResponse(containerId, session, options)
+  );
+  await logStreamEvents(
+    runAutoFix(containerId, session, assistantMsg, options)
   );
 
-  const codeContext = JSON.stringify(fileContentTree, null, 2);
+  return {
+    userMessage: userMsg,
+    assistantMessage: assistantMsg,
+  };
+}
 
-  const systemPrompt = `${prompt}
+async function logStreamEvents<T>(
+  stream: AsyncGenerator<ChatStreamEvent, T>
+): Promise<T> {
+  let next = await stream.next();
 
-Current codebase structure and content:
-${codeContext}`;
+  while (!next.done) {
+    const event = next.value;
+    if (event.type === "operation") {
+      console.log(
+        `[FILE OP] ${event.data.type} ${event.data.target}: ${event.data.status}`
+      );
+    } else if (event.type === "tool" && event.data.status !== "running") {
+      console.log(
+        `[TOOL] ${event.data.name} ${event.data.target}: ${event.data.status}`
+      );
+    } else if (event.type === "check") {
+      console.log(
+        `[AUTO-FIX] attempt ${event.data.attempt}: ${event.data.status}`
+      );
+    }
+    next = await stream.next();
+  }
 
-  const openaiMessages = [
-    { role: "system" as const, content: systemPrompt },
-    ...session.messages.map((msg) => ({
-      role: msg.role as "user" | "assistant",
-      content:
-        msg.role === "user" && msg.attachments
-          ? buildMessageContent(msg.content, msg.attachments)
-          : msg.content,
-    })),
-  ];
+  return next.value;
+}
 
-  const completion = await openai.chat.completions.create({
-    model: config.aiSdk.model,
-    messages: openaiMessages,
-    //@ts-ignore
-    temperature: config.aiSdk.temperature,
-  });
+function recordMessageUsage(
+  session: ChatSession,
+  message: Pick<Message, "id" | "model" | "usage">,
+  usage: modelService.TokenUsage
+): void {
+  message.usage = usageService.recordUsage(
+    {
+      containerId: session.containerId,
+      sessionId: session.id,
+      messageId: message.id,
+      kind: "message",
+      model: message.model || modelService.DEFAULT_MODEL_ID,
+    },
+    usage
+  );
+}
 
-  const assistantContent =
-    completion.choices[0]?.message?.content ||
-    "Sorry, I could not generate a response.";
+function useTools(options: SendMessageOptions): boolean {
+  return options.tools ?? config.tools.enabled;
+}
 
-  const assistantMsg: Message = {
+async function* streamToolResponse(
+  containerId: string,
+  session: ChatSession,
+  options: SendMessageOptions
+): AsyncGenerator<ChatStreamEvent, Message> {
+  const chatMessages = await buildChatMessages(containerId, session, options);
+  chatMessages[0]!.content += toolService.TOOL_PROMPT;
+
+  const message: Message = {
     id: `assistant-${Date.now()}`,
     role: "assistant",
-    content: assistantContent,
+    content: "",
     timestamp: new Date().toISOString(),
+    model: options.model,
+    operations: [],
+    toolCalls: [],
   };
+  let operationIndex = 0;
+  const usage: modelService.TokenUsage = {
+    promptTokens: 0,
+    completionTokens: 0,
+  };
+
+  const snapshot = (): ChatStreamEvent => ({
+    type: "assistant",
+    data: {
+      ...message,
+      operations: [...message.operations!],
+      toolCalls: message.toolCalls!.map((call) => ({ ...call })),
+    },
+  });
+
+  try {
+    for (let step = 1; ; step++) {
+      const calls: modelService.ToolCall[] = [];
+      let text = "";
+
+      for await (const chunk of modelService.streamChatCompletion(
+        options.model,
+        chatMessages,
+        { signal: options.signal, tools: toolService.TOOL_DEFINITIONS }
+      )) {
+        if (chunk.type === "text") {
+          text += chunk.text;
+          message.content += chunk.text;
+          yield snapshot();
+        } else if (chunk.type === "tool_call") {
+          calls.push(chunk.call);
+        } else {
+          usageService.addTokenUsage(usage, chunk.usage);
+        }
+      }
+
+      if (calls.length === 0) {
+        break;
+      }
+
+      if (step > config.tools.maxSteps) {
+        console.warn(`[TOOL] Stopped ${message.id} after ${step - 1} steps`);
+        break;
+      }
 
-  session.messages.push(assistantMsg);
+      chatMessages.push({
+        role: "assistant",
+        content: text || null,
+        tool_calls: calls.map((call) => ({
+          id: call.id,
+          type: "function" as const,
+          function: { name: call.name, arguments: call.arguments || "{}" },
+        })),
+      });
+
+      for (const call of calls) {
+        const record: ToolCallRecord = {
+          id: call.id,
+          name: call.name,
+          target: toolService.getToolTarget(call),
+          status: "running",
+        };
+        message.toolCalls!.push(record);
+        yield { type: "tool", data: { messageId: message.id, ...record } };
+        yield snapshot();
+
+        let result: string;
+        try {
+          if (toolService.isReadTool(call.name)) {
+            result = await toolService.runReadTool(containerId, call);
+            record.status = "succeeded";
+          } else {
+            const operation = toolService.toFileOperation(call);
+            if (!message.checkpointId) {
+              await createMessageCheckpoint(containerId, message);
+            }
+
+            message.content += `\n\n${toolService.formatOperationTag(operation)}\n\n`;
+            yield snapshot();
+
+            let operationResult: OperationResult | undefined;
+            for await (operationResult of operationService.applyOperationAt(
+              containerId,
+              message.id,
+              operationIndex,
+              operation,
+              {
+                ...options,
+                defer: message.operations!.some(
+                  (op) => op.status === "pending"
+                ),
+              }
+            )) {
+              yield {
+                type: "operation",
+                data: { messageId: message.id, ...operationResult },
+              };
+            }
+            operationIndex++;
+            message.operations!.push(operationResult!);
+
+            if (operationResult!.status === "failed") {
+              throw new Error(operationResult!.error || "Operation failed");
+            }
+
+            record.status = "succeeded";
+            result =
+              operationResult!.status === "pending"
+                ? "The change was queued for the user to review. Assume it will be applied."
+                : "Done";
+          }
+        } catch (error) {
+          record.status = "failed";
+          record.error =
+            error instanceof Error ? error.message : "Unknown error";
+          result = `Error: ${record.error}`;
+        }
+
+        yield { type: "tool", data: { messageId: message.id, ...record } };
+        yield snapshot();
+        chatMessages.push({
+          role: "tool",
+          tool_call_id: call.id,
+          content: result,
+        });
+      }
+    }
+  } catch (error) {
+    if (!options.signal?.aborted) {
+      // The failed message is not saved, but the tokens it used are billed
+      recordMessageUsage(session, message, usage);
+      throw error;
+    }
+
+    console.log(`[CHAT] Generation of ${message.id} was stopped`);
+    message.interrupted = true;
+  }
+
+  message.content = message.content.trim();
+  message.timestamp = new Date().toISOString();
+
+  if (message.operations!.length > 0) {
+    await commitMessageChanges(containerId, message);
+  } else {
+    message.operations = undefined;
+  }
+  if (message.toolCalls!.length === 0) {
+    message.toolCalls = undefined;
+  }
+  recordMessageUsage(session, message, usage);
+
+  session.messages.push(message);
   session.updatedAt = new Date().toISOString();
+  sessionService.getSessionStore().save(session);
 
-  return {
-    userMessage: userMsg,
-    assistantMessage: assistantMsg,
+  return message;
+}
+
+async function* streamAssistantResponse(
+  containerId: string,
+  session: ChatSession,
+  options: SendMessageOptions
+): AsyncGenerator<ChatStreamEvent, Message> {
+  if (useTools(options)) {
+    return yield* streamToolResponse(containerId, session, options);
+  }
+
+  const chatMessages = await buildChatMessages(containerId, session, options);
+
+  const assistantId = `assistant-${Date.now()}`;
+  let assistantContent = "";
+  let interrupted = false;
+  const usage: modelService.TokenUsage = {
+    promptTokens: 0,
+    completionTokens: 0,
+  };
+
+  try {
+    for (let iteration = 1; ; iteration++) {
+      let stepContent = "";
+
+      for await (const chunk of modelService.streamChatCompletion(
+        options.model,
+        chatMessages,
+        { signal: options.signal }
+      )) {
+        if (chunk.type === "usage") {
+          usageService.addTokenUsage(usage, chunk.usage);
+        }
+        if (chunk.type !== "text") continue;
+
+        stepContent += chunk.text;
+        assistantContent += chunk.text;
+        yield {
+          type: "assistant",
+          data: {
+            id: assistantId,
+            role: "assistant",
+            content: assistantContent,
+            timestamp: new Date().toISOString(),
+            model: options.model,
+          },
+        };
+      }
+
+      // Answer <dec-read> and <dec-search> requests and let the model continue
+      const requests = contextService.parseFileRequests(
+        stepContent,
+        templateService.getProjectTemplate(containerId).basePath
+      );
+      if (requests.length === 0) {
+        break;
+      }
+
+      if (iteration > config.context.maxReadIterations) {
+        console.warn(
+          `[CONTEXT] ${assistantId} reached the limit of ${config.context.maxReadIterations} read iterations`
+        );
+        break;
+      }
+
+      const answers = await contextService.answerFileRequests(
+        containerId,
+        requests
+      );
+      const reminder =
+        iteration === config.context.maxReadIterations
+          ? "\n\nThis was the last lookup for this answer, finish it without further <dec-read> or <dec-search> requests."
+          : "";
+
+      chatMessages.push(
+        { role: "assistant", content: stepContent },
+        { role: "user", content: `${answers}${reminder}` }
+      );
+      assistantContent += "\n\n";
+    }
+  } catch (error) {
+    if (!options.signal?.aborted) {
+      recordMessageUsage(
+        session,
+        { id: assistantId, model: options.model },
+        usage
+      );
+      throw error;
+    }
+
+    // The client stopped the generation, keep what was written so far
+    console.log(`[CHAT] Generation of ${assistantId} was stopped`);
+    interrupted = true;
+  }
+
+  // Only operations with a closing tag are parsed, so a file the model was
+  // still writing when the generation stopped is never applied
+  const finalAssistantMsg: Message = {
+    id: assistantId,
+    role: "assistant",
+    content: assistantContent,
+    timestamp: new Date().toISOString(),
+    model: options.model,
+    interrupted: interrupted || undefined,
   };
+  recordMessageUsage(session, finalAssistantMsg, usage);
+
+  session.messages.push(finalAssistantMsg);
+  session.updatedAt = new Date().toISOString();
+  sessionService.getSessionStore().save(session);
+
+  for await (const result of applyMessageOperations(
+    containerId,
+    finalAssistantMsg,
+    options
+  )) {
+    yield {
+      type: "operation",
+      data: { messageId: finalAssistantMsg.id, ...result },
+    };
+  }
+  sessionService.getSessionStore().save(session);
+
+  return finalAssistantMsg;
+}
+
+function getAutoFixPrompt(output: string): string {
+  return `The project no longer builds after your last changes. Fix the following errors:
+
+\`\`\`
+${output}
+\`\`\``;
+}
+
+async function* runAutoFix(
+  containerId: string,
+  session: ChatSession,
+  message: Message,
+  options: SendMessageOptions
+): AsyncGenerator<ChatStreamEvent> {
+  if (!options.autoFix || options.review || message.interrupted) {
+    return;
+  }
+
+  const maxAttempts = config.autoFix.maxAttempts;
+  let lastMessage = message;
+
+  for (let attempt = 1; attempt <= maxAttempts + 1; attempt++) {
+    if (
+      options.signal?.aborted ||
+      lastMessage.interrupted ||
+      !lastMessage.operations?.some((op) => op.status === "succeeded")
+    ) {
+      return;
+    }
+
+    const check = { messageId: lastMessage.id, attempt, maxAttempts };
+    yield { type: "check", data: { ...check, status: "running" } };
+
+    const result = await buildService.runBuildCheck(containerId);
+    if (result.success) {
+      yield { type: "check", data: { ...check, status: "passed" } };
+      return;
+    }
+
+    yield {
+      type: "check",
+      data: { ...check, status: "failed", output: result.output },
+    };
+
+    if (attempt > maxAttempts) {
+      return;
+    }
+
+    // The chat route only checks the limits once, before the first answer
+    const exceeded = limitService.getExceededLimit(containerId);
+    if (exceeded) {
+      console.warn(
+        `[AUTO-FIX] Stopped for ${containerId}: ${limitService.formatLimitError(exceeded)}`
+      );
+      return;
+    }
+
+    const fixMsg: Message = {
+      id: `user-${Date.now()}`,
+      role: "user",
+      content: getAutoFixPrompt(result.output),
+      timestamp: new Date().toISOString(),
+      autoFixAttempt: attempt,
+    };
+
+    addUserMessage(session, fixMsg);
+    yield { type: "user", data: fixMsg };
+
+    lastMessage = yield* streamAssistantResponse(containerId, session, options);
+    yield { type: "done", data: lastMessage };
+  }
+}
+
+async function* streamTurn(
+  containerId: string,
+  session: ChatSession,
+  options: SendMessageOptions
+): AsyncGenerator<ChatStreamEvent> {
+  const assistantMsg = yield* streamAssistantResponse(
+    containerId,
+    session,
+    options
+  );
+  yield { type: "done", data: assistantMsg };
+
+  yield* runAutoFix(containerId, session, assistantMsg, options);
 }
 
 export async function* sendMessageStream(
   containerId: string,
   userMessage: string,
-  attachments: Attachment[] = []
-): AsyncGenerator<{ type: "user" | "assistant" | "done"; data: any }> {
-  const session = getOrCreateChatSession(containerId);
+  attachments: Attachment[] = [],
+  options: SendMessageOptions = {}
+): AsyncGenerator<ChatStreamEvent> {
+  const session = getOrCreateChatSession(containerId, options.sessionId);
+  options = { ...options, model: selectModel(session, options) };
 
   const userMsg: Message = {
     id: `user-${Date.now()}`,
@@ -187,68 +813,258 @@ export async function* sendMessageStream(
     attachments: attachments.length > 0 ? attachments : undefined,
   };
 
-  session.messages.push(userMsg);
+  addUserMessage(session, userMsg);
   yield { type: "user", data: userMsg };
 
-  const fileContentTree = await fileService.getFileContentTree(
-    dockerService.docker,
-    containerId
+  yield* streamTurn(containerId, session, options);
+}
+
+async function forkHistory(
+  containerId: string,
+  session: ChatSession,
+  index: number
+): Promise<MessageBranch> {
+  const removed = session.messages.slice(index);
+
+  // Put the files back to how they were before the first removed change
+  const checkpointId = removed.find((msg) => msg.checkpointId)?.checkpointId;
+  if (checkpointId) {
+    await checkpointService.restoreCheckpoint(containerId, checkpointId);
+  }
+
+  const branch: MessageBranch = {
+    id: `branch-${Date.now()}`,
+    forkedAfter: session.messages[index - 1]?.id ?? null,
+    messages: removed,
+    createdAt: new Date().toISOString(),
+  };
+
+  session.branches = [...(session.branches || []), branch];
+  session.messages = session.messages.slice(0, index);
+  session.updatedAt = new Date().toISOString();
+  sessionService.getSessionStore().save(session);
+
+  console.log(
+    `[CHAT] Moved ${removed.length} messages of ${session.id} to ${branch.id}`
   );
+  return branch;
+}
 
-  const codeContext = JSON.stringify(fileContentTree, null, 2);
+export async function* regenerateMessageStream(
+  containerId: string,
+  messageId: string,
+  options: SendMessageOptions = {}
+): AsyncGenerator<ChatStreamEvent> {
+  const { session, message } = findMessage(containerId, messageId);
 
-  const systemPrompt = `${prompt}
+  if (message.role !== "assistant") {
+    throw new Error("Only assistant messages can be regenerated");
+  }
 
-Current codebase structure and content:
-${codeContext}`;
+  options = {
+    ...options,
+    sessionId: session.id,
+    model: selectModel(session, options),
+  };
 
-  const openaiMessages = [
-    { role: "system" as const, content: systemPrompt },
-    ...session.messages.map((msg) => ({
-      role: msg.role as "user" | "assistant",
-      content:
-        msg.role === "user" && msg.attachments
-          ? buildMessageContent(msg.content, msg.attachments)
-          : msg.content,
-    })),
-  ];
+  await forkHistory(containerId, session, session.messages.indexOf(message));
 
-  const assistantId = `assistant-${Date.now()}`;
-  let assistantContent = "";
+  yield* streamTurn(containerId, session, options);
+}
 
-  const stream = await openai.chat.completions.create({
-    model: config.aiSdk.model,
-    messages: openaiMessages,
-    //@ts-ignore
-    temperature: config.aiSdk.temperature,
-    stream: true,
-  });
+export async function* editMessageStream(
+  containerId: string,
+  messageId: string,
+  content: string,
+  options: SendMessageOptions = {}
+): AsyncGenerator<ChatStreamEvent> {
+  const { session, message } = findMessage(containerId, messageId);
 
-  for await (const chunk of stream) {
-    const delta = chunk.choices[0]?.delta;
-    if (delta?.content) {
-      assistantContent += delta.content;
-      yield {
-        type: "assistant",
-        data: {
-          id: assistantId,
-          role: "assistant",
-          content: assistantContent,
-          timestamp: new Date().toISOString(),
-        },
-      };
-    }
+  if (message.role !== "user") {
+    throw new Error("Only user messages can be edited");
   }
 
-  const finalAssistantMsg: Message = {
-    id: assistantId,
-    role: "assistant",
-    content: assistantContent,
+  options = {
+    ...options,
+    sessionId: session.id,
+    model: selectModel(session, options),
+  };
+
+  await forkHistory(containerId, session, session.messages.indexOf(message));
+
+  const userMsg: Message = {
+    id: `user-${Date.now()}`,
+    role: "user",
+    content,
     timestamp: new Date().toISOString(),
+    attachments: message.attachments,
   };
 
-  session.messages.push(finalAssistantMsg);
+  addUserMessage(session, userMsg);
+  yield { type: "user", data: userMsg };
+
+  yield* streamTurn(containerId, session, options);
+}
+
+function findMessage(
+  containerId: string,
+  messageId: string
+): { session: ChatSession; message: Message } {
+  for (const session of listChatSessions(containerId)) {
+    const message = session.messages.find((msg) => msg.id === messageId);
+    if (message) {
+      return { session, message };
+    }
+  }
+
+  throw new Error(`Message ${messageId} not found`);
+}
+
+export async function getPendingChanges(
+  containerId: string,
+  messageId: string
+): Promise<PendingChange[]> {
+  const { message } = findMessage(containerId, messageId);
+  const operations = operationService.parseOperations(message.content);
+  const changes: PendingChange[] = [];
+
+  // Pending changes build on each other, so every diff starts from the
+  // result of the pending changes before it instead of the file on disk
+  const proposedFiles = new Map<string, string>();
+  const readProposed = async (path: string): Promise<string> => {
+    if (proposedFiles.has(path)) {
+      return proposedFiles.get(path)!;
+    }
+
+    try {
+      return await fileService.readFile(
+        dockerService.docker,
+        containerId,
+        fileService.getAbsolutePath(containerId, path)
+      );
+    } catch {
+      return "";
+    }
+  };
+
+  for (const [index, operation] of operations.entries()) {
+    const operationId = operationService.getOperationId(messageId, index);
+    const result = message.operations?.find((op) => op.id === operationId);
+
+    if (result?.status !== "pending") {
+      continue;
+    }
+
+    const change: PendingChange = {
+      operationId,
+      type: operation.type,
+      path: operationService.getOperationTarget(operation),
+      original: "",
+      proposed: "",
+      status: result.status,
+    };
+
+    switch (operation.type) {
+      case "write":
+        change.original = await readProposed(operation.path);
+        change.proposed = operation.content;
+        proposedFiles.set(operation.path, change.proposed);
+        break;
+      case "edit":
+        change.original = await readProposed(operation.path);
+        try {
+          change.proposed = operationService.applyEditHunks(
+            change.original,
+            operation.hunks,
+            operation.path
+          );
+        } catch (editError) {
+          change.proposed = change.original;
+          change.error =
+            editError instanceof Error ? editError.message : "Unknown error";
+        }
+        proposedFiles.set(operation.path, change.proposed);
+        break;
+      case "rename":
+        change.original = await readProposed(operation.from);
+        change.proposed = change.original;
+        proposedFiles.set(operation.from, "");
+        proposedFiles.set(operation.to, change.proposed);
+        break;
+      case "delete":
+        change.original = await readProposed(operation.path);
+        proposedFiles.set(operation.path, "");
+        break;
+      case "dependency":
+        break;
+    }
+
+    changes.push(change);
+  }
+
+  return changes;
+}
+
+export async function resolvePendingChanges(
+  containerId: string,
+  messageId: string,
+  operationIds: string[],
+  action: "accept" | "reject"
+): Promise<Message> {
+  const { session, message } = findMessage(containerId, messageId);
+  const operations = operationService.parseOperations(message.content);
+
+  for (const [index, operation] of operations.entries()) {
+    const operationId = operationService.getOperationId(messageId, index);
+    const result = message.operations?.find((op) => op.id === operationId);
+
+    if (
+      !result ||
+      result.status !== "pending" ||
+      !operationIds.includes(operationId)
+    ) {
+      continue;
+    }
+
+    if (action === "reject") {
+      result.status = "rejected";
+      continue;
+    }
+
+    try {
+      await operationService.applyOperation(containerId, operation);
+      result.status = "succeeded";
+    } catch (error) {
+      result.status = "failed";
+      result.error = error instanceof Error ? error.message : "Unknown error";
+    }
+  }
+
+  if (action === "accept") {
+    try {
+      message.commitHash =
+        (await gitService.commitAll(containerId, getCommitMessage(message))) ??
+        message.commitHash;
+    } catch (error) {
+      console.error("Could not commit reviewed changes:", error);
+    }
+  }
+
   session.updatedAt = new Date().toISOString();
+  sessionService.getSessionStore().save(session);
+  return message;
+}
+
+export async function revertToMessage(
+  containerId: string,
+  messageId: string
+): Promise<Message> {
+  const { message } = findMessage(containerId, messageId);
+
+  if (!message.checkpointId) {
+    throw new Error("This message has no checkpoint to restore");
+  }
 
-  yield { type: "done", data: finalAssistantMsg };
+  await checkpointService.restoreCheckpoint(containerId, message.checkpointId);
+  return message;
 }
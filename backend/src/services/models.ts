@@ -0,0 +1,469 @@
+import Anthropic from "@anthropic-ai/sdk";
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { config } from "../../config";
+import * as contextService from "./context";
+
+export type ProviderType = "openai" | "anthropic" | "ollama";
+
+export interface ProviderConfig {
+  type: ProviderType;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface ModelProfile {
+  id: string;
+  name: string;
+  provider: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  provider: string;
+  providerType: ProviderType;
+  model: string;
+  available: boolean;
+  isDefault: boolean;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export type CompletionChunk =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; call: ToolCall }
+  | { type: "usage"; usage: TokenUsage };
+
+export interface CompletionResult {
+  content: string;
+  usage: TokenUsage;
+}
+
+export interface CompletionOptions {
+  signal?: AbortSignal;
+  tools?: ToolDefinition[];
+}
+
+export const DEFAULT_MODEL_ID = "default";
+const DEFAULT_MAX_TOKENS = 8192;
+
+const clients = new Map<string, OpenAI | Anthropic>();
+
+function getProviders(): Record<string, ProviderConfig> {
+  return {
+    [DEFAULT_MODEL_ID]: {
+      type: "openai",
+      baseUrl: config.aiSdk.baseUrl,
+      apiKey: config.aiSdk.apiKey,
+    },
+    ...config.providers,
+  };
+}
+
+function getProfiles(): ModelProfile[] {
+  return [
+    {
+      id: DEFAULT_MODEL_ID,
+      name: `Default (${config.aiSdk.model})`,
+      provider: DEFAULT_MODEL_ID,
+      model: config.aiSdk.model,
+      temperature: (config.aiSdk as { temperature?: number }).temperature,
+    },
+    ...config.models,
+  ];
+}
+
+function getProvider(profile: ModelProfile): ProviderConfig {
+  const provider = getProviders()[profile.provider];
+  if (!provider) {
+    throw new Error(
+      `Model ${profile.id} uses unknown provider ${profile.provider}`
+    );
+  }
+  return provider;
+}
+
+function isProviderAvailable(provider: ProviderConfig): boolean {
+  return provider.type === "ollama" || Boolean(provider.apiKey);
+}
+
+export function listModels(): ModelInfo[] {
+  const providers = getProviders();
+
+  return getProfiles().map((profile) => {
+    const provider = providers[profile.provider];
+    return {
+      id: profile.id,
+      name: profile.name,
+      provider: profile.provider,
+      providerType: provider?.type ?? "openai",
+      model: profile.model,
+      available: provider ? isProviderAvailable(provider) : false,
+      isDefault: profile.id === DEFAULT_MODEL_ID,
+    };
+  });
+}
+
+export function getModelProfile(modelId?: string): ModelProfile {
+  const id = modelId || DEFAULT_MODEL_ID;
+  const profile = getProfiles().find((profile) => profile.id === id);
+
+  if (!profile) {
+    throw new Error(`Unknown model: ${id}`);
+  }
+
+  return profile;
+}
+
+function getOpenAIClient(providerName: string, provider: ProviderConfig) {
+  if (!clients.has(providerName)) {
+    clients.set(
+      providerName,
+      provider.type === "ollama"
+        ? new OpenAI({
+            apiKey: "ollama",
+            baseURL: `${(provider.baseUrl || "http://localhost:11434").replace(/\/$/, "")}/v1`,
+          })
+        : new OpenAI({
+            apiKey: provider.apiKey,
+            baseURL: provider.baseUrl || "https://api.openai.com/v1",
+          })
+    );
+  }
+  return clients.get(providerName) as OpenAI;
+}
+
+function getAnthropicClient(providerName: string, provider: ProviderConfig) {
+  if (!clients.has(providerName)) {
+    clients.set(
+      providerName,
+      new Anthropic({
+        apiKey: provider.apiKey,
+        baseURL: provider.baseUrl || undefined,
+      })
+    );
+  }
+  return clients.get(providerName) as Anthropic;
+}
+
+function toAnthropicContent(
+  content: ChatCompletionMessageParam["content"]
+): string | Anthropic.ContentBlockParam[] {
+  if (!content || typeof content === "string") {
+    return content || "";
+  }
+
+  return content.map((part): Anthropic.ContentBlockParam => {
+    if (part.type === "image_url") {
+      const match = part.image_url.url.match(/^data:([^;]+);base64,(.*)$/);
+      return {
+        type: "image",
+        source: {
+          type: "base64",
+          media_type: (match?.[1] ||
+            "image/png") as Anthropic.Base64ImageSource["media_type"],
+          data: match?.[2] || "",
+        },
+      };
+    }
+
+    return { type: "text", text: "text" in part ? part.text : "" };
+  });
+}
+
+// Arguments of a stopped or malformed tool call are not valid JSON, the
+// tool already answered with an error so an empty input is enough
+function parseToolInput(args: string): Record<string, unknown> {
+  try {
+    const input = JSON.parse(args || "{}");
+    if (input && typeof input === "object" && !Array.isArray(input)) {
+      return input;
+    }
+  } catch {}
+
+  return {};
+}
+
+function getPromptText(messages: ChatCompletionMessageParam[]): string {
+  return messages
+    .map((message) => {
+      const parts =
+        typeof message.content === "string"
+          ? [message.content]
+          : (message.content || []).map((part) =>
+              "text" in part ? part.text : ""
+            );
+      const calls =
+        "tool_calls" in message
+          ? (message.tool_calls || []).map((call) =>
+              call.type === "function" ? call.function.arguments : ""
+            )
+          : [];
+      return [...parts, ...calls].join("\n");
+    })
+    .join("\n");
+}
+
+// Providers only report usage at the end of a stream, a stream that is
+// stopped or fails is still billed, so its usage is estimated
+function estimateUsage(
+  messages: ChatCompletionMessageParam[],
+  streamed: string,
+  reported?: TokenUsage
+): TokenUsage {
+  return {
+    promptTokens:
+      reported?.promptTokens ||
+      contextService.estimateTokens(getPromptText(messages)),
+    completionTokens: Math.max(
+      reported?.completionTokens ?? 0,
+      contextService.estimateTokens(streamed)
+    ),
+  };
+}
+
+function toAnthropicMessages(
+  messages: ChatCompletionMessageParam[]
+): Anthropic.MessageParam[] {
+  const result: Anthropic.MessageParam[] = [];
+
+  for (const message of messages) {
+    if (message.role === "tool") {
+      const block: Anthropic.ToolResultBlockParam = {
+        type: "tool_result",
+        tool_use_id: message.tool_call_id,
+        content: message.content as string,
+      };
+
+      // Results of parallel tool calls go back together in one user turn
+      const previous = result[result.length - 1];
+      if (previous?.role === "user" && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: "user", content: [block] });
+      }
+    } else if (message.role === "assistant" && message.tool_calls?.length) {
+      const text = typeof message.content === "string" ? message.content : "";
+      result.push({
+        role: "assistant",
+        content: [
+          ...(text ? [{ type: "text" as const, text }] : []),
+          ...message.tool_calls.map((call): Anthropic.ToolUseBlockParam => ({
+            type: "tool_use",
+            id: call.id,
+            name: call.type === "function" ? call.function.name : "",
+            input: parseToolInput(
+              call.type === "function" ? call.function.arguments : ""
+            ),
+          })),
+        ],
+      });
+    } else if (message.role === "user" || message.role === "assistant") {
+      result.push({
+        role: message.role,
+        content: toAnthropicContent(
+          message.content as ChatCompletionMessageParam["content"]
+        ),
+      });
+    }
+  }
+
+  return result;
+}
+
+function toAnthropicRequest(
+  profile: ModelProfile,
+  messages: ChatCompletionMessageParam[],
+  tools?: ToolDefinition[]
+) {
+  const system = messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content as string)
+    .join("\n\n");
+
+  return {
+    model: profile.model,
+    max_tokens: profile.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: profile.temperature,
+    system,
+    messages: toAnthropicMessages(messages),
+    tools: tools?.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+    })),
+  };
+}
+
+export async function createChatCompletion(
+  modelId: string | undefined,
+  messages: ChatCompletionMessageParam[],
+  options: CompletionOptions = {}
+): Promise<CompletionResult> {
+  let content = "";
+  let usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+
+  for await (const chunk of streamChatCompletion(modelId, messages, options)) {
+    if (chunk.type === "text") {
+      content += chunk.text;
+    } else if (chunk.type === "usage") {
+      usage = chunk.usage;
+    }
+  }
+  return { content, usage };
+}
+
+export async function* streamChatCompletion(
+  modelId: string | undefined,
+  messages: ChatCompletionMessageParam[],
+  options: CompletionOptions = {}
+): AsyncGenerator<CompletionChunk> {
+  const profile = getModelProfile(modelId);
+  const provider = getProvider(profile);
+  const tools = options.tools?.length ? options.tools : undefined;
+
+  if (provider.type === "anthropic") {
+    const client = getAnthropicClient(profile.provider, provider);
+    const stream = await client.messages.create(
+      {
+        ...toAnthropicRequest(profile, messages, tools),
+        stream: true,
+      },
+      { signal: options.signal }
+    );
+
+    const toolCalls = new Map<number, ToolCall>();
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+    let streamed = "";
+
+    try {
+      for await (const event of stream) {
+        if (event.type === "message_start") {
+          // Cached prompt tokens are reported separately from input_tokens
+          const {
+            input_tokens,
+            cache_creation_input_tokens,
+            cache_read_input_tokens,
+          } = event.message.usage;
+          usage.promptTokens =
+            input_tokens +
+            (cache_creation_input_tokens ?? 0) +
+            (cache_read_input_tokens ?? 0);
+        } else if (event.type === "message_delta") {
+          usage.completionTokens = event.usage.output_tokens;
+        } else if (
+          event.type === "content_block_start" &&
+          event.content_block.type === "tool_use"
+        ) {
+          toolCalls.set(event.index, {
+            id: event.content_block.id,
+            name: event.content_block.name,
+            arguments: "",
+          });
+        } else if (event.type === "content_block_delta") {
+          if (event.delta.type === "text_delta") {
+            streamed += event.delta.text;
+            yield { type: "text", text: event.delta.text };
+          } else if (event.delta.type === "input_json_delta") {
+            const call = toolCalls.get(event.index);
+            if (call) call.arguments += event.delta.partial_json;
+            streamed += event.delta.partial_json;
+          }
+        } else if (event.type === "content_block_stop") {
+          const call = toolCalls.get(event.index);
+          if (call) {
+            yield { type: "tool_call", call };
+          }
+        }
+      }
+    } catch (error) {
+      yield { type: "usage", usage: estimateUsage(messages, streamed, usage) };
+      throw error;
+    }
+
+    yield { type: "usage", usage };
+    return;
+  }
+
+  const client = getOpenAIClient(profile.provider, provider);
+  const stream = await client.chat.completions.create(
+    {
+      model: profile.model,
+      messages,
+      temperature: profile.temperature,
+      tools: tools?.map((tool) => ({
+        type: "function" as const,
+        function: tool,
+      })),
+      stream: true,
+      stream_options: { include_usage: true },
+    },
+    { signal: options.signal }
+  );
+
+  // Tool call names and arguments arrive in pieces, keyed by their index
+  const toolCalls = new Map<number, ToolCall>();
+  let usage: TokenUsage | undefined;
+  let streamed = "";
+
+  try {
+    for await (const chunk of stream) {
+      // Only sent in the last chunk, which has no choices
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+        };
+      }
+
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        streamed += delta.content;
+        yield { type: "text", text: delta.content };
+      }
+
+      for (const part of delta?.tool_calls || []) {
+        const call = toolCalls.get(part.index) || {
+          id: "",
+          name: "",
+          arguments: "",
+        };
+        call.id = part.id || call.id;
+        call.name += part.function?.name || "";
+        call.arguments += part.function?.arguments || "";
+        streamed += part.function?.arguments || "";
+        toolCalls.set(part.index, call);
+      }
+    }
+  } catch (error) {
+    yield { type: "usage", usage: estimateUsage(messages, streamed, usage) };
+    throw error;
+  }
+
+  for (const call of toolCalls.values()) {
+    yield { type: "tool_call", call };
+  }
+
+  if (usage) {
+    yield { type: "usage", usage };
+  }
+}
@@ -0,0 +1,252 @@
+import * as dockerService from "./docker";
+import * as fileService from "./file";
+import * as packageService from "./package";
+
+export type FileOperation =
+  | { type: "write"; path: string; content: string }
+  | { type: "edit"; path: string; hunks: EditHunk[] }
+  | { type: "rename"; from: string; to: string }
+  | { type: "delete"; path: string }
+  | { type: "dependency"; packageName: string };
+
+export interface EditHunk {
+  search: string;
+  replace: string;
+}
+
+export type OperationStatus =
+  "pending" | "started" | "succeeded" | "failed" | "rejected";
+
+export interface OperationResult {
+  id: string;
+  type: FileOperation["type"];
+  target: string;
+  status: OperationStatus;
+  error?: string;
+}
+
+const operationPatterns: Record<FileOperation["type"], RegExp> = {
+  write:
+    /<dec-write\s+(?:path|file_path)="([^"]+)"\s*>([\s\S]*?)<\/dec-write>/g,
+  edit: /<dec-edit\s+(?:path|file_path)="([^"]+)"\s*>([\s\S]*?)<\/dec-edit>/g,
+  rename:
+    /<dec-rename\s+(?:from|original_file_path)="([^"]+)"\s+(?:to|new_file_path)="([^"]+)"\s*\/>/g,
+  delete: /<dec-delete\s+(?:path|file_path)="([^"]+)"\s*\/>/g,
+  dependency:
+    /<dec-add-dependency(?:\s+name="([^"]+)"(?:\s+version="([^"]+)")?)?>(.*?)<\/dec-add-dependency>/g,
+};
+
+const hunkPattern =
+  /<<<<<<< SEARCH\r?\n([\s\S]*?)\r?\n?=======\r?\n([\s\S]*?)\r?\n?>>>>>>> REPLACE/g;
+
+export function parseEditHunks(body: string): EditHunk[] {
+  const hunks: EditHunk[] = [];
+
+  hunkPattern.lastIndex = 0;
+  let match;
+  while ((match = hunkPattern.exec(body)) !== null) {
+    hunks.push({ search: match[1]!, replace: match[2]! });
+  }
+
+  return hunks;
+}
+
+export function applyEditHunks(
+  content: string,
+  hunks: EditHunk[],
+  filePath: string
+): string {
+  if (hunks.length === 0) {
+    throw new Error(`No SEARCH/REPLACE blocks found for ${filePath}`);
+  }
+
+  return hunks.reduce((current, hunk, index) => {
+    const position = current.indexOf(hunk.search);
+    const preview = hunk.search.split("\n")[0]?.trim();
+
+    if (!hunk.search || position === -1) {
+      throw new Error(
+        `Search block ${index + 1} not found in ${filePath}: "${preview}"`
+      );
+    }
+
+    if (current.indexOf(hunk.search, position + 1) !== -1) {
+      throw new Error(
+        `Search block ${index + 1} matches more than once in ${filePath}: "${preview}"`
+      );
+    }
+
+    return (
+      current.slice(0, position) +
+      hunk.replace +
+      current.slice(position + hunk.search.length)
+    );
+  }, content);
+}
+
+// Tags put their content on its own lines, only those two line breaks are not part of it
+function stripTagNewlines(content: string): string {
+  return content.replace(/^\r?\n/, "").replace(/\r?\n$/, "");
+}
+
+function toOperation(
+  type: FileOperation["type"],
+  match: RegExpExecArray
+): FileOperation | null {
+  switch (type) {
+    case "write":
+      return { type, path: match[1]!, content: stripTagNewlines(match[2]!) };
+    case "edit":
+      return { type, path: match[1]!, hunks: parseEditHunks(match[2]!) };
+    case "rename":
+      return { type, from: match[1]!, to: match[2]! };
+    case "delete":
+      return { type, path: match[1]! };
+    case "dependency": {
+      const name = match[1] || match[3]?.trim();
+      if (!name) return null;
+      const packageName = match[1] && match[2] ? `${name}@${match[2]}` : name;
+      return { type, packageName };
+    }
+  }
+}
+
+export function parseOperations(content: string): FileOperation[] {
+  const found: Array<{ index: number; operation: FileOperation }> = [];
+
+  for (const [type, pattern] of Object.entries(operationPatterns)) {
+    pattern.lastIndex = 0;
+    let match;
+    while ((match = pattern.exec(content)) !== null) {
+      const operation = toOperation(type as FileOperation["type"], match);
+      if (operation) {
+        found.push({ index: match.index, operation });
+      }
+    }
+  }
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ operation }) => operation);
+}
+
+export function getOperationTarget(operation: FileOperation): string {
+  switch (operation.type) {
+    case "write":
+    case "edit":
+    case "delete":
+      return operation.path;
+    case "rename":
+      return `${operation.from} → ${operation.to}`;
+    case "dependency":
+      return operation.packageName;
+  }
+}
+
+export function getOperationId(messageId: string, index: number): string {
+  return `${messageId}-op-${index}`;
+}
+
+export async function getEditedContent(
+  containerId: string,
+  operation: Extract<FileOperation, { type: "edit" }>
+): Promise<string> {
+  const current = await fileService.readFile(
+    dockerService.docker,
+    containerId,
+    fileService.getAbsolutePath(containerId, operation.path)
+  );
+
+  return applyEditHunks(current, operation.hunks, operation.path);
+}
+
+export async function applyOperation(
+  containerId: string,
+  operation: FileOperation
+): Promise<void> {
+  switch (operation.type) {
+    case "write":
+      await fileService.writeFile(
+        containerId,
+        operation.path,
+        operation.content
+      );
+      break;
+    case "edit":
+      await fileService.writeFile(
+        containerId,
+        operation.path,
+        await getEditedContent(containerId, operation)
+      );
+      break;
+    case "rename":
+      await fileService.renameFile(containerId, operation.from, operation.to);
+      break;
+    case "delete":
+      await fileService.removeFile(containerId, operation.path);
+      break;
+    case "dependency":
+      await packageService.addDependency(containerId, operation.packageName);
+      break;
+  }
+}
+
+export async function* applyOperations(
+  containerId: string,
+  messageId: string,
+  operations: FileOperation[],
+  options: { review?: boolean } = {}
+): AsyncGenerator<OperationResult> {
+  let defer = false;
+
+  for (const [index, operation] of operations.entries()) {
+    for await (const result of applyOperationAt(
+      containerId,
+      messageId,
+      index,
+      operation,
+      { ...options, defer }
+    )) {
+      defer ||= result.status === "pending";
+      yield result;
+    }
+  }
+}
+
+export async function* applyOperationAt(
+  containerId: string,
+  messageId: string,
+  index: number,
+  operation: FileOperation,
+  options: { review?: boolean; defer?: boolean } = {}
+): AsyncGenerator<OperationResult> {
+  const result: OperationResult = {
+    id: getOperationId(messageId, index),
+    type: operation.type,
+    target: getOperationTarget(operation),
+    status: "started",
+  };
+
+  // Once a change waits for review, everything after it waits too, later
+  // operations may build on it
+  if (
+    options.review &&
+    (options.defer || operation.type === "write" || operation.type === "edit")
+  ) {
+    yield { ...result, status: "pending" };
+    return;
+  }
+
+  yield { ...result };
+
+  try {
+    await applyOperation(containerId, operation);
+    result.status = "succeeded";
+  } catch (error) {
+    console.error(`[FILE OP] ${operation.type} operation failed:`, error);
+    result.status = "failed";
+    result.error = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  yield result;
+}
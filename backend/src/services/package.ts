@@ -1,18 +1,41 @@
-import { exec } from "child_process";
+import { execFile } from "child_process";
 import { promisify } from "util";
+import * as templateService from "./templates";
 
-const execAsync = promisify(exec);
-const BASE_PATH = "/app/my-nextjs-app";
+const execFileAsync = promisify(execFile);
+
+// An npm package name with an optional scope and version, like zod, @types/node or next@^15.1
+const PACKAGE_NAME_PATTERN =
+  /^(@[a-z0-9][a-z0-9._~-]*\/)?[a-z0-9][a-z0-9._~-]*(@[a-z0-9.^~<>=*+-]+)?$/i;
+
+export function isValidPackageName(packageName: string): boolean {
+  return packageName.length <= 214 && PACKAGE_NAME_PATTERN.test(packageName);
+}
 
 export async function addDependency(
   containerId: string,
   packageName: string,
   isDev: boolean = false
 ): Promise<string> {
-  const devFlag = isDev ? "--dev" : "";
-  const addCommand =
-    `docker exec -w ${BASE_PATH} ${containerId} bun add ${packageName} ${devFlag}`.trim();
+  if (!isValidPackageName(packageName)) {
+    throw new Error(`Invalid package name: ${packageName}`);
+  }
+
+  const template = templateService.getProjectTemplate(containerId);
+  const commands = templateService.getPackageCommands(template);
+  const addCommand = isDev ? commands.addDev : commands.add;
 
-  const { stdout, stderr } = await execAsync(addCommand);
+  // The package name is passed as an argument, never as part of the script
+  const { stdout, stderr } = await execFileAsync("docker", [
+    "exec",
+    "-w",
+    template.basePath,
+    containerId,
+    "sh",
+    "-c",
+    addCommand,
+    "sh",
+    packageName,
+  ]);
   return stdout || stderr;
 }
@@ -0,0 +1,110 @@
+import path from "path";
+import { config } from "../../config";
+import * as storeService from "./store";
+
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  description: string;
+  templateId: string;
+  prompt?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastOpenedAt?: string;
+}
+
+const MAX_NAME_LENGTH = 60;
+const PROJECTS_FILE = path.join(config.storage.dataDir, "projects.json");
+
+let store: storeService.JsonFileStore<ProjectInfo> | null = null;
+
+function getStore(): storeService.JsonFileStore<ProjectInfo> {
+  // Entries from before template manifests existed use the default template
+  store ??= storeService.createJsonFileStore<ProjectInfo>(
+    PROJECTS_FILE,
+    "projects",
+    (project) => {
+      project.templateId ||= config.templates.default;
+    }
+  );
+  return store;
+}
+
+function loadProjects(): Map<string, ProjectInfo> {
+  return getStore().records;
+}
+
+function flush(): void {
+  getStore().flush();
+}
+
+export function getNameFromPrompt(prompt: string): string {
+  const firstLine = prompt.trim().split("\n")[0] || "";
+  return firstLine.length > MAX_NAME_LENGTH
+    ? `${firstLine.slice(0, MAX_NAME_LENGTH - 3)}...`
+    : firstLine;
+}
+
+export function getProject(containerId: string): ProjectInfo | undefined {
+  return loadProjects().get(containerId);
+}
+
+export function createProject(
+  containerId: string,
+  details: {
+    name?: string;
+    description?: string;
+    templateId?: string;
+    prompt?: string;
+  } = {}
+): ProjectInfo {
+  const now = new Date().toISOString();
+  const project: ProjectInfo = {
+    id: containerId,
+    name:
+      details.name?.trim().slice(0, MAX_NAME_LENGTH) ||
+      getNameFromPrompt(details.prompt || ""),
+    description: details.description?.trim() || "",
+    templateId: details.templateId || config.templates.default,
+    prompt: details.prompt?.trim() || undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  loadProjects().set(containerId, project);
+  flush();
+  return project;
+}
+
+// Projects created before the registry existed get an entry on their first update
+export function updateProject(
+  containerId: string,
+  changes: { name?: string; description?: string }
+): ProjectInfo {
+  const project = getProject(containerId) || createProject(containerId);
+
+  if (changes.name !== undefined) {
+    project.name = changes.name.trim().slice(0, MAX_NAME_LENGTH);
+  }
+  if (changes.description !== undefined) {
+    project.description = changes.description.trim();
+  }
+  project.updatedAt = new Date().toISOString();
+
+  flush();
+  return project;
+}
+
+export function markProjectOpened(containerId: string): ProjectInfo {
+  const project = getProject(containerId) || createProject(containerId);
+  project.lastOpenedAt = new Date().toISOString();
+
+  flush();
+  return project;
+}
+
+export function deleteProject(containerId: string): void {
+  if (loadProjects().delete(containerId)) {
+    flush();
+  }
+}
@@ -0,0 +1,144 @@
+import path from "path";
+import { config } from "../../config";
+import type { OperationResult } from "./operations";
+import * as storeService from "./store";
+import type { MessageUsage } from "./usage";
+
+export interface Message {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+  attachments?: Attachment[];
+  operations?: OperationResult[];
+  checkpointId?: string;
+  commitHash?: string;
+  autoFixAttempt?: number;
+  model?: string;
+  interrupted?: boolean;
+  toolCalls?: ToolCallRecord[];
+  usage?: MessageUsage;
+}
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  target: string;
+  status: "running" | "succeeded" | "failed";
+  error?: string;
+}
+
+export interface Attachment {
+  type: "image" | "document";
+  data: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface HistorySummary {
+  content: string;
+  filesChanged: string[];
+  lastMessageId: string;
+  createdAt: string;
+}
+
+export interface MessageBranch {
+  id: string;
+  // Last message the branch shares with the active history, null at the start
+  forkedAfter: string | null;
+  messages: Message[];
+  createdAt: string;
+}
+
+export interface ChatSession {
+  id: string;
+  containerId: string;
+  title?: string;
+  messages: Message[];
+  branches?: MessageBranch[];
+  model?: string;
+  summary?: HistorySummary;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SessionStore {
+  get(sessionId: string): ChatSession | undefined;
+  findByContainer(containerId: string): ChatSession[];
+  save(session: ChatSession): void;
+  delete(sessionId: string): void;
+}
+
+export type SessionStoreKind = "json" | "memory";
+
+function createMemorySessionStore(
+  sessions: Map<string, ChatSession> = new Map()
+): SessionStore {
+  return {
+    get(sessionId) {
+      return sessions.get(sessionId);
+    },
+
+    findByContainer(containerId) {
+      return Array.from(sessions.values()).filter(
+        (session) => session.containerId === containerId
+      );
+    },
+
+    save(session) {
+      sessions.set(session.id, session);
+    },
+
+    delete(sessionId) {
+      sessions.delete(sessionId);
+    },
+  };
+}
+
+function createJsonFileSessionStore(filePath: string): SessionStore {
+  const { records: sessions, flush } =
+    storeService.createJsonFileStore<ChatSession>(filePath, "chat sessions");
+  const memoryStore = createMemorySessionStore(sessions);
+
+  return {
+    ...memoryStore,
+
+    save(session) {
+      memoryStore.save(session);
+      flush();
+    },
+
+    delete(sessionId) {
+      memoryStore.delete(sessionId);
+      flush();
+    },
+  };
+}
+
+export function createSessionStore(kind: SessionStoreKind): SessionStore {
+  switch (kind) {
+    case "memory":
+      return createMemorySessionStore();
+    case "json":
+      return createJsonFileSessionStore(
+        path.join(config.storage.dataDir, "sessions.json")
+      );
+  }
+}
+
+let store: SessionStore = createSessionStore(config.storage.sessionStore);
+
+export function getSessionStore(): SessionStore {
+  return store;
+}
+
+export function setSessionStore(sessionStore: SessionStore): void {
+  store = sessionStore;
+}
+
+export function deleteContainerSessions(containerId: string): void {
+  for (const session of store.findByContainer(containerId)) {
+    store.delete(session.id);
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import path from "path";
+
+export interface JsonFileStore<T extends { id: string }> {
+  records: Map<string, T>;
+  // Writes every record to a temporary file first, so a crash never leaves half a file
+  flush(): void;
+}
+
+// Loads records kept as a JSON array in one file, keyed by their id. A file
+// that can't be read is logged and starts out empty
+export function createJsonFileStore<T extends { id: string }>(
+  filePath: string,
+  label: string,
+  prepare?: (record: T) => void
+): JsonFileStore<T> {
+  const records = new Map<string, T>();
+
+  if (existsSync(filePath)) {
+    try {
+      const stored: T[] = JSON.parse(readFileSync(filePath, "utf-8"));
+      for (const record of stored) {
+        prepare?.(record);
+        records.set(record.id, record);
+      }
+      console.log(`Loaded ${records.size} ${label} from ${filePath}`);
+    } catch (error) {
+      console.error(`Could not load ${label} from ${filePath}:`, error);
+    }
+  }
+
+  return {
+    records,
+
+    flush() {
+      const tempPath = `${filePath}.tmp`;
+
+      mkdirSync(path.dirname(filePath), { recursive: true });
+      writeFileSync(
+        tempPath,
+        JSON.stringify(Array.from(records.values()), null, 2),
+        "utf-8"
+      );
+      renameSync(tempPath, filePath);
+    },
+  };
+}
@@ -0,0 +1,246 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { config } from "../../config";
+import * as projectService from "./projects";
+
+// Add commands run through sh with the package name as $1. The cache is where the image
+// build puts this package manager's part of the package cache, install reads it as $PACKAGE_CACHE.
+// Installs try the cache alone first and only fall back to the network when it misses a package
+const PACKAGE_MANAGERS = {
+  bun: {
+    cache: "/root/.bun/install/cache",
+    install:
+      "bun install --frozen-lockfile --offline || bun install --frozen-lockfile",
+    add: 'bun add "$1"',
+    addDev: 'bun add --dev "$1"',
+  },
+  npm: {
+    cache: "/root/.npm",
+    install: "npm install --prefer-offline",
+    add: 'npm install "$1"',
+    addDev: 'npm install --save-dev "$1"',
+  },
+  // The container only runs the project, so packages go into the system Python
+  pip: {
+    cache: "/root/.cache/december-wheels",
+    install:
+      'pip install --break-system-packages --no-index --find-links "$PACKAGE_CACHE" -r requirements.txt || pip install --break-system-packages -r requirements.txt',
+    add: 'pip install --break-system-packages "$1" && echo "$1" >> requirements.txt',
+    addDev:
+      'pip install --break-system-packages "$1" && echo "$1" >> requirements.txt',
+  },
+};
+
+const SYSTEM_PACKAGE_PATTERN = /^[a-z0-9][a-z0-9._+-]*$/;
+
+export type PackageManager = keyof typeof PACKAGE_MANAGERS;
+
+export interface TemplateManifest {
+  id: string;
+  name: string;
+  description: string;
+  // Project folder inside the container
+  basePath: string;
+  devCommand: string;
+  // Finds build errors for auto-fix, runs in the project folder
+  checkCommand: string;
+  // Port the dev server listens on inside the container
+  port: number;
+  packageManager: PackageManager;
+  // Alpine packages installed into the image, e.g. python3
+  systemPackages: string[];
+  // Where the preview console script is copied, the template has to load it
+  consoleScript: string;
+  // Dependency and build output folders, skipped in file trees, searches, checkpoints and exports
+  ignore: string[];
+  // Files and folders left out of the code context sent to the model
+  contextExclude: string[];
+  // Files always ranked into the code context
+  entryFiles: string[];
+  // Framework specific guidelines added to the system prompt
+  prompt: string;
+}
+
+export interface TemplateInfo extends TemplateManifest {
+  // Templates with nothing but a manifest can't be used to create projects
+  installed: boolean;
+}
+
+const MANIFEST_FILE = "template.json";
+// The git history is created inside the image, it is never copied from a template
+// and never part of file trees, code context or checkpoints
+const ALWAYS_IGNORED = [".git"];
+
+let templates: Map<string, TemplateManifest> | null = null;
+// Files that describe a template but are not part of its projects
+const manifestFiles = new Map<string, string[]>();
+
+export function getTemplateDir(templateId: string): string {
+  return path.resolve(config.templates.directory, templateId);
+}
+
+function readManifest(templateId: string): TemplateManifest {
+  const templateDir = getTemplateDir(templateId);
+  const manifest = JSON.parse(
+    readFileSync(path.join(templateDir, MANIFEST_FILE), "utf-8")
+  );
+
+  for (const field of ["name", "basePath", "devCommand", "consoleScript"]) {
+    if (typeof manifest[field] !== "string" || !manifest[field]) {
+      throw new Error(`${field} must be a non-empty string`);
+    }
+  }
+  if (!manifest.basePath.startsWith("/")) {
+    throw new Error("basePath must be an absolute path");
+  }
+  if (!Number.isInteger(manifest.port) || manifest.port <= 0) {
+    throw new Error("port must be a positive integer");
+  }
+  if (!(manifest.packageManager in PACKAGE_MANAGERS)) {
+    throw new Error(
+      `packageManager must be one of ${Object.keys(PACKAGE_MANAGERS).join(", ")}`
+    );
+  }
+  for (const systemPackage of manifest.systemPackages || []) {
+    if (!SYSTEM_PACKAGE_PATTERN.test(systemPackage)) {
+      throw new Error(`Invalid system package: ${systemPackage}`);
+    }
+  }
+
+  manifestFiles.set(
+    templateId,
+    [MANIFEST_FILE, manifest.promptFile].filter(Boolean)
+  );
+
+  return {
+    id: templateId,
+    name: manifest.name,
+    description: manifest.description || "",
+    basePath: manifest.basePath.replace(/\/+$/, ""),
+    devCommand: manifest.devCommand,
+    checkCommand: manifest.checkCommand || config.autoFix.checkCommand,
+    port: manifest.port,
+    packageManager: manifest.packageManager,
+    systemPackages: manifest.systemPackages || [],
+    consoleScript: manifest.consoleScript,
+    ignore: manifest.ignore || [],
+    contextExclude: manifest.contextExclude || [],
+    entryFiles: manifest.entryFiles || [],
+    prompt: manifest.promptFile
+      ? readFileSync(path.join(templateDir, manifest.promptFile), "utf-8")
+      : manifest.prompt || "",
+  };
+}
+
+function loadTemplates(): Map<string, TemplateManifest> {
+  if (templates) {
+    return templates;
+  }
+
+  templates = new Map();
+  const directory = path.resolve(config.templates.directory);
+  if (!existsSync(directory)) {
+    console.error(`Templates directory ${directory} does not exist`);
+    return templates;
+  }
+
+  for (const entry of readdirSync(directory, { withFileTypes: true })) {
+    if (
+      !entry.isDirectory() ||
+      !existsSync(path.join(directory, entry.name, MANIFEST_FILE))
+    ) {
+      continue;
+    }
+
+    try {
+      templates.set(entry.name, readManifest(entry.name));
+    } catch (error) {
+      console.error(
+        `Invalid ${MANIFEST_FILE} in template "${entry.name}":`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  console.log(`Loaded ${templates.size} templates from ${directory}`);
+  return templates;
+}
+
+export function getTemplate(templateId: string): TemplateManifest {
+  const template = loadTemplates().get(templateId);
+  if (!template) {
+    throw new Error(`Unknown template: ${templateId}`);
+  }
+  return template;
+}
+
+export function getDefaultTemplate(): TemplateManifest {
+  return getTemplate(config.templates.default);
+}
+
+// Projects created before the registry existed use the default template
+export function getProjectTemplate(containerId: string): TemplateManifest {
+  const templateId =
+    projectService.getProject(containerId)?.templateId ||
+    config.templates.default;
+
+  try {
+    return getTemplate(templateId);
+  } catch {
+    console.warn(
+      `Template "${templateId}" of ${containerId} no longer exists, using the default template`
+    );
+    return getDefaultTemplate();
+  }
+}
+
+export function getPackageCommands(
+  template: TemplateManifest
+): (typeof PACKAGE_MANAGERS)[PackageManager] {
+  return PACKAGE_MANAGERS[template.packageManager];
+}
+
+// Folders left out of everything that walks the project files
+export function getIgnoredPaths(template: TemplateManifest): string[] {
+  return [...ALWAYS_IGNORED, ...template.ignore];
+}
+
+export async function listTemplateFiles(
+  template: TemplateManifest,
+  directory = ""
+): Promise<string[]> {
+  const templateDir = getTemplateDir(template.id);
+  const entries = await fs.readdir(path.join(templateDir, directory), {
+    withFileTypes: true,
+  });
+  const ignored = getIgnoredPaths(template);
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relativePath = path.join(directory, entry.name);
+    if (
+      ignored.includes(entry.name) ||
+      manifestFiles.get(template.id)?.includes(relativePath)
+    ) {
+      continue;
+    }
+
+    if (entry.isDirectory()) {
+      files.push(...(await listTemplateFiles(template, relativePath)));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+
+  return files.sort();
+}
+
+export async function listTemplates(): Promise<TemplateInfo[]> {
+  return Promise.all(
+    Array.from(loadTemplates().values()).map(async (template) => ({
+      ...template,
+      installed: (await listTemplateFiles(template)).length > 0,
+    }))
+  );
+}
@@ -0,0 +1,103 @@
+import type Docker from "dockerode";
+import type { Duplex } from "stream";
+import { StringDecoder } from "string_decoder";
+import * as dockerService from "./docker";
+import * as templateService from "./templates";
+
+interface TerminalSession {
+  id: string;
+  containerId: string;
+  exec: Docker.Exec;
+  stream: Duplex;
+}
+
+const terminals = new Map<string, TerminalSession>();
+
+export async function openTerminal(
+  containerId: string,
+  size: { cols: number; rows: number },
+  onData: (data: string) => void,
+  onExit: () => void
+): Promise<string> {
+  const container = dockerService.getContainer(containerId);
+
+  const exec = await container.exec({
+    Cmd: ["bash", "-l"],
+    AttachStdin: true,
+    AttachStdout: true,
+    AttachStderr: true,
+    Tty: true,
+    WorkingDir: templateService.getProjectTemplate(containerId).basePath,
+    Env: ["TERM=xterm-256color"],
+  });
+
+  const stream = await exec.start({ hijack: true, stdin: true, Tty: true });
+  const id = `${containerId}-terminal-${Date.now()}`;
+  terminals.set(id, { id, containerId, exec, stream });
+
+  const decoder = new StringDecoder("utf8");
+  stream.on("data", (chunk: Buffer) => onData(decoder.write(chunk)));
+
+  // The shell exiting only ends the output side, the hijacked connection
+  // stays open until it is destroyed
+  let exited = false;
+  const handleExit = () => {
+    if (exited) return;
+    exited = true;
+    terminals.delete(id);
+    stream.destroy();
+    onExit();
+  };
+
+  stream.on("end", handleExit);
+  stream.on("close", handleExit);
+  stream.on("error", (error) => {
+    console.error(`Terminal ${id} stream error:`, error);
+    handleExit();
+  });
+
+  await resizeTerminal(id, size.cols, size.rows);
+  console.log(`Opened terminal ${id}`);
+
+  return id;
+}
+
+export function writeTerminal(terminalId: string, data: string): void {
+  terminals.get(terminalId)?.stream.write(data);
+}
+
+export async function resizeTerminal(
+  terminalId: string,
+  cols: number,
+  rows: number
+): Promise<void> {
+  const terminal = terminals.get(terminalId);
+  if (!terminal || !cols || !rows) return;
+
+  try {
+    await terminal.exec.resize({ w: cols, h: rows });
+  } catch (error) {
+    console.warn(`Could not resize terminal ${terminalId}:`, error);
+  }
+}
+
+export function closeTerminal(terminalId: string): void {
+  const terminal = terminals.get(terminalId);
+  if (!terminal) return;
+
+  terminals.delete(terminalId);
+
+  // Ending stdin makes the shell exit; destroying the stream drops the
+  // hijacked connection in case something in the shell is still running
+  terminal.stream.end();
+  terminal.stream.destroy();
+  console.log(`Closed terminal ${terminalId}`);
+}
+
+export function closeContainerTerminals(containerId: string): void {
+  for (const terminal of [...terminals.values()]) {
+    if (terminal.containerId === containerId) {
+      closeTerminal(terminal.id);
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import * as dockerService from "./docker";
+import * as fileService from "./file";
+import type { ToolCall, ToolDefinition } from "./models";
+import type { FileOperation } from "./operations";
+import * as packageService from "./package";
+
+const MAX_READ_LENGTH = 100000;
+
+export const TOOL_PROMPT = `
+<tool-mode>
+You have tools to read and change the project. Use them instead of the <dec-write>, <dec-edit>, <dec-rename>, <dec-delete>, <dec-add-dependency>, <dec-read> and <dec-search> tags, which are not available right now. Earlier messages may still show changes as those tags, they were made the same way.
+Read a file before you edit it unless its current content is shown above. Every tool call returns its result, so you can fix a failed edit right away. Text you write outside of tool calls is shown to the user, keep it short and finish with a one sentence summary of what changed.
+</tool-mode>`;
+
+export const TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    name: "write_file",
+    description:
+      "Create a file or replace its entire content. Always write the complete file.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description:
+            "Path relative to the project root, e.g. src/app/page.tsx",
+        },
+        content: { type: "string", description: "The full file content" },
+      },
+      required: ["path", "content"],
+    },
+  },
+  {
+    name: "edit_file",
+    description:
+      "Change part of an existing file. Each search text must match the current file exactly once.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path relative to the project root",
+        },
+        edits: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              search: { type: "string", description: "Exact text to find" },
+              replace: {
+                type: "string",
+                description: "Text to put in its place",
+              },
+            },
+            required: ["search", "replace"],
+          },
+        },
+      },
+      required: ["path", "edits"],
+    },
+  },
+  {
+    name: "rename_file",
+    description: "Rename or move a file.",
+    parameters: {
+      type: "object",
+      properties: {
+        from: { type: "string", description: "Current path" },
+        to: { type: "string", description: "New path" },
+      },
+      required: ["from", "to"],
+    },
+  },
+  {
+    name: "delete_file",
+    description: "Delete a file from the project.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path relative to the project root",
+        },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "add_dependency",
+    description:
+      "Install an npm package. This is the only way to change package.json.",
+    parameters: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Package name, optionally with a version like zod@3",
+        },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "read_file",
+    description: "Read the current content of a file.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path relative to the project root",
+        },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "list_files",
+    description: "List the files and folders in a directory of the project.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description:
+            "Directory relative to the project root, empty for the root",
+        },
+      },
+    },
+  },
+];
+
+function parseArguments(call: ToolCall): Record<string, any> {
+  try {
+    const args = JSON.parse(call.arguments || "{}");
+    if (args && typeof args === "object") {
+      return args;
+    }
+  } catch {}
+
+  throw new Error(`Invalid arguments for ${call.name}: ${call.arguments}`);
+}
+
+function requireString(args: Record<string, any>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || !value) {
+    throw new Error(`Missing "${key}" argument`);
+  }
+  return value;
+}
+
+export function isReadTool(name: string): boolean {
+  return name === "read_file" || name === "list_files";
+}
+
+export function getToolTarget(call: ToolCall): string {
+  try {
+    const args = parseArguments(call);
+    return (
+      args.path || args.name || (args.from && `${args.from} → ${args.to}`) || ""
+    );
+  } catch {
+    return "";
+  }
+}
+
+export function toFileOperation(call: ToolCall): FileOperation {
+  const args = parseArguments(call);
+
+  switch (call.name) {
+    case "write_file":
+      return {
+        type: "write",
+        path: requireString(args, "path"),
+        content: typeof args.content === "string" ? args.content : "",
+      };
+    case "edit_file":
+      if (!Array.isArray(args.edits) || args.edits.length === 0) {
+        throw new Error('Missing "edits" argument');
+      }
+      return {
+        type: "edit",
+        path: requireString(args, "path"),
+        hunks: args.edits.map((edit: any) => ({
+          search: String(edit?.search ?? ""),
+          replace: String(edit?.replace ?? ""),
+        })),
+      };
+    case "rename_file":
+      return {
+        type: "rename",
+        from: requireString(args, "from"),
+        to: requireString(args, "to"),
+      };
+    case "delete_file":
+      return { type: "delete", path: requireString(args, "path") };
+    case "add_dependency": {
+      const packageName = requireString(args, "name");
+      if (!packageService.isValidPackageName(packageName)) {
+        throw new Error(
+          `"${packageName}" is not a valid npm package name, pass one package like zod or zod@3`
+        );
+      }
+      return { type: "dependency", packageName };
+    }
+    default:
+      throw new Error(`Unknown tool: ${call.name}`);
+  }
+}
+
+// Written into the message content so the chat, change review and history
+// handle tool changes the same way as tag based ones
+export function formatOperationTag(operation: FileOperation): string {
+  switch (operation.type) {
+    case "write":
+      return `<dec-write path="${operation.path}">\n${operation.content}\n</dec-write>`;
+    case "edit":
+      return `<dec-edit path="${operation.path}">\n${operation.hunks
+        .map(
+          (hunk) =>
+            `<<<<<<< SEARCH\n${hunk.search}\n=======\n${hunk.replace}\n>>>>>>> REPLACE`
+        )
+        .join("\n")}\n</dec-edit>`;
+    case "rename":
+      return `<dec-rename from="${operation.from}" to="${operation.to}" />`;
+    case "delete":
+      return `<dec-delete path="${operation.path}" />`;
+    case "dependency":
+      return `<dec-add-dependency>${operation.packageName}</dec-add-dependency>`;
+  }
+}
+
+export async function runReadTool(
+  containerId: string,
+  call: ToolCall
+): Promise<string> {
+  const args = parseArguments(call);
+
+  if (call.name === "read_file") {
+    const content = await fileService.readFile(
+      dockerService.docker,
+      containerId,
+      fileService.getAbsolutePath(containerId, requireString(args, "path"))
+    );
+
+    return content.length > MAX_READ_LENGTH
+      ? `${content.slice(0, MAX_READ_LENGTH)}\n[File truncated]`
+      : content;
+  }
+
+  const directory = typeof args.path === "string" ? args.path : "";
+  const items = await fileService.listFiles(
+    dockerService.docker,
+    containerId,
+    directory ? fileService.getAbsolutePath(containerId, directory) : undefined
+  );
+
+  if (items.length === 0) {
+    return "The directory is empty or does not exist";
+  }
+
+  return items
+    .map((item) =>
+      item.type === "directory"
+        ? `${item.name}/`
+        : `${item.name} (${item.size} bytes)`
+    )
+    .join("\n");
+}
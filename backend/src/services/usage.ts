@@ -0,0 +1,197 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import path from "path";
+import { config } from "../../config";
+import type { TokenUsage } from "./models";
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface MessageUsage extends TokenUsage {
+  cost?: number;
+}
+
+export interface UsageRecord extends MessageUsage {
+  containerId: string;
+  sessionId: string;
+  messageId?: string;
+  kind: "message" | "summary";
+  model: string;
+  timestamp: string;
+}
+
+export interface UsageSummary {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  // Tokens used by models without a price in the config, they are not part of the cost
+  unpricedTokens: number;
+  requests: number;
+}
+
+export interface ProjectUsage extends UsageSummary {
+  byModel: Record<string, UsageSummary>;
+}
+
+export interface GlobalUsage {
+  total: UsageSummary;
+  projects: Record<string, UsageSummary>;
+}
+
+// Kept apart from the chat sessions so spending stays on record after a
+// thread or project is deleted
+const USAGE_FILE = path.join(config.storage.dataDir, "usage.jsonl");
+
+let records: UsageRecord[] | null = null;
+
+function loadRecords(): UsageRecord[] {
+  if (records) {
+    return records;
+  }
+
+  records = [];
+  if (!existsSync(USAGE_FILE)) {
+    return records;
+  }
+
+  try {
+    for (const line of readFileSync(USAGE_FILE, "utf-8").split("\n")) {
+      if (line.trim()) {
+        records.push(JSON.parse(line));
+      }
+    }
+    console.log(`Loaded ${records.length} usage records from ${USAGE_FILE}`);
+  } catch (error) {
+    console.error(`Could not load usage records from ${USAGE_FILE}:`, error);
+  }
+
+  return records;
+}
+
+export function getModelPrice(modelId: string): ModelPrice | undefined {
+  return (config.usage.prices as Record<string, ModelPrice | undefined>)[
+    modelId
+  ];
+}
+
+export function calculateCost(
+  modelId: string,
+  usage: TokenUsage
+): number | undefined {
+  const price = getModelPrice(modelId);
+  if (!price) {
+    return undefined;
+  }
+
+  // Prices are per million tokens
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000
+  );
+}
+
+export function addTokenUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+}
+
+export function recordUsage(
+  entry: Omit<UsageRecord, "cost" | "timestamp" | keyof TokenUsage>,
+  usage: TokenUsage
+): MessageUsage | undefined {
+  // Some providers don't report usage, there is nothing to record then
+  if (usage.promptTokens === 0 && usage.completionTokens === 0) {
+    return undefined;
+  }
+
+  const messageUsage: MessageUsage = {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    cost: calculateCost(entry.model, usage),
+  };
+  const record: UsageRecord = {
+    ...entry,
+    ...messageUsage,
+    timestamp: new Date().toISOString(),
+  };
+
+  loadRecords().push(record);
+
+  try {
+    mkdirSync(path.dirname(USAGE_FILE), { recursive: true });
+    appendFileSync(USAGE_FILE, `${JSON.stringify(record)}\n`, "utf-8");
+  } catch (error) {
+    console.error("Could not save usage record:", error);
+  }
+
+  console.log(
+    `[USAGE] ${entry.model}: ${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens${
+      messageUsage.cost !== undefined
+        ? ` ($${messageUsage.cost.toFixed(4)})`
+        : ""
+    }`
+  );
+
+  return messageUsage;
+}
+
+function createSummary(): UsageSummary {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    cost: 0,
+    unpricedTokens: 0,
+    requests: 0,
+  };
+}
+
+function addRecord(summary: UsageSummary, record: UsageRecord): void {
+  summary.promptTokens += record.promptTokens;
+  summary.completionTokens += record.completionTokens;
+  summary.requests++;
+
+  if (record.cost !== undefined) {
+    summary.cost += record.cost;
+  } else {
+    summary.unpricedTokens += record.promptTokens + record.completionTokens;
+  }
+}
+
+export function getProjectUsage(containerId: string): ProjectUsage {
+  const usage: ProjectUsage = { ...createSummary(), byModel: {} };
+
+  for (const record of loadRecords()) {
+    if (record.containerId !== containerId) continue;
+
+    addRecord(usage, record);
+    addRecord((usage.byModel[record.model] ??= createSummary()), record);
+  }
+
+  return usage;
+}
+
+export function getUsageSince(since: Date, containerId?: string): UsageSummary {
+  const usage = createSummary();
+  const sinceTime = since.getTime();
+
+  for (const record of loadRecords()) {
+    if (containerId && record.containerId !== containerId) continue;
+    if (new Date(record.timestamp).getTime() < sinceTime) continue;
+
+    addRecord(usage, record);
+  }
+
+  return usage;
+}
+
+export function getGlobalUsage(): GlobalUsage {
+  const usage: GlobalUsage = { total: createSummary(), projects: {} };
+
+  for (const record of loadRecords()) {
+    addRecord(usage.total, record);
+    addRecord((usage.projects[record.containerId] ??= createSummary()), record);
+  }
+
+  return usage;
+}
@@ -0,0 +1,53 @@
+// Copied into every project at the consoleScript path of its template, which
+// loads it before the app. Forwards console output and uncaught errors to the
+// December workspace that embeds the preview in an iframe.
+
+const SOURCE = "december-preview";
+const LEVELS = ["log", "info", "warn", "error", "debug"];
+
+function serialize(value) {
+  if (value instanceof Error) {
+    return value.stack || `${value.name}: ${value.message}`;
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function send(level, args) {
+  if (window.parent === window) return;
+
+  try {
+    window.parent.postMessage(
+      {
+        source: SOURCE,
+        level,
+        message: args.map(serialize).join(" "),
+        url: window.location.pathname,
+        timestamp: new Date().toISOString(),
+      },
+      "*"
+    );
+  } catch {}
+}
+
+for (const level of LEVELS) {
+  const original = console[level].bind(console);
+  console[level] = (...args) => {
+    send(level, args);
+    original(...args);
+  };
+}
+
+window.addEventListener("error", (event) => {
+  send("error", [event.error || event.message]);
+});
+
+window.addEventListener("unhandledrejection", (event) => {
+  send("error", ["Unhandled promise rejection:", event.reason]);
+});
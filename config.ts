@@ -13,4 +13,131 @@ export const config = {
     // The model to use, e.g., "gpt-4", "gpt-3.5-turbo", or "ollama/llama2"
     model: "anthropic/claude-sonnet-4",
   },
+
+  // Additional providers for the model profiles below. The aiSdk settings above are always
+  // available as the "default" profile. Supported types: "openai" (any OpenAI compatible API),
+  // "anthropic" (native Anthropic API) and "ollama" (local models)
+  providers: {
+    anthropic: {
+      type: "anthropic",
+      apiKey: "",
+    },
+    ollama: {
+      type: "ollama",
+      baseUrl: "http://localhost:11434",
+    },
+  },
+
+  // Named model profiles that can be picked per project and per message
+  models: [
+    {
+      id: "claude-sonnet-4",
+      name: "Claude Sonnet 4 (Anthropic)",
+      provider: "anthropic",
+      model: "claude-sonnet-4-20250514",
+      maxTokens: 16000,
+    },
+    {
+      id: "llama-local",
+      name: "Llama 3.1 (Ollama)",
+      provider: "ollama",
+      model: "llama3.1",
+    },
+  ],
+
+  storage: {
+    // Directory for December's own data (chat history etc.), relative to the backend folder
+    dataDir: "./data",
+
+    // Where chat sessions are kept: "json" persists them to disk, "memory" forgets them on restart
+    sessionStore: "json",
+  },
+
+  templates: {
+    // Directory with the project templates, relative to the backend folder. Each template is a
+    // folder with the files a new project starts with
+    directory: "../templates",
+
+    // Template new projects start from
+    default: "nextjs",
+
+    // Package cache copied into the project image so dependencies install without network
+    // access, with a folder per package manager (bun and pip). Leave empty to always download
+    // packages. scripts/vendor-templates.sh fills it
+    packageCache: "./data/package-cache",
+  },
+
+  context: {
+    // Rough token budget for file contents sent with each message. The most relevant files are
+    // included in full, the rest of the project is only listed by path and the assistant reads
+    // them with <dec-read> when it needs them
+    maxTokens: 30000,
+
+    // How many rounds of <dec-read> and <dec-search> requests the assistant gets per answer
+    maxReadIterations: 5,
+  },
+
+  history: {
+    // Once the chat history sent to the model grows past this many tokens, older messages are
+    // replaced by a summary. The full history is still kept and shown in the UI
+    compactAfterTokens: 40000,
+
+    // How many of the latest messages are always sent word for word
+    keepRecentMessages: 6,
+  },
+
+  autoFix: {
+    // How many follow-up turns the assistant gets to fix build errors when auto-fix is enabled
+    maxAttempts: 3,
+
+    // Command run inside the project to find build errors, for templates without a checkCommand in
+    // their manifest. Avoid `next build`, it overwrites the .next folder the dev server is using
+    checkCommand: "bunx tsc --noEmit --pretty false",
+
+    // Seconds before the check command is aborted
+    timeoutSeconds: 120,
+  },
+
+  tools: {
+    // Let the model change files through native tool calls instead of <dec-*> tags by default.
+    // The chat can also switch this per message. Needs a model that supports tool calling
+    enabled: false,
+
+    // Most model round trips for one answer before the tool loop is stopped
+    maxSteps: 15,
+  },
+
+  usage: {
+    // Prices in USD per million tokens, keyed by model profile id ("default" is the aiSdk model
+    // above). Tokens of models without a price are still counted, they just have no cost. While a
+    // cost limit is on, models without a price can't be used
+    prices: {
+      default: { input: 3, output: 15 },
+      "claude-sonnet-4": { input: 3, output: 15 },
+      "llama-local": { input: 0, output: 0 },
+    },
+  },
+
+  limits: {
+    // Spending limits for each project and for all projects together, checked before a message
+    // is sent to the model. Costs are in USD based on usage.prices, 0 turns a limit off
+    project: {
+      dailyTokens: 0,
+      monthlyTokens: 0,
+      dailyCost: 5,
+      monthlyCost: 50,
+    },
+    global: {
+      dailyTokens: 0,
+      monthlyTokens: 0,
+      dailyCost: 20,
+      monthlyCost: 200,
+    },
+
+    // The chat shows a warning once this share of a limit is used
+    warnAt: 0.8,
+
+    // Most chat requests per project and minute, 0 for no limit
+    requestsPerMinute: 10,
+  },
 } as const;
@@ -1,4 +1,4 @@
-import { FileText, Image, Paperclip, Send, X } from "lucide-react";
+import { FileText, Image, Paperclip, Send, Square, X } from "lucide-react";
 import { useRef, useState } from "react";
 import { toast } from "react-hot-toast";
 
@@ -11,6 +11,7 @@ interface ChatInputProps {
   disabled?: boolean;
   pendingFiles?: File[];
   onRemovePendingFile?: (index: number) => void;
+  onStop?: () => void;
 }
 
 export const ChatInput = ({
@@ -22,6 +23,7 @@ export const ChatInput = ({
   disabled = false,
   pendingFiles = [],
   onRemovePendingFile,
+  onStop,
 }: ChatInputProps) => {
   const [attachments, setAttachments] = useState<File[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -189,14 +191,27 @@ export const ChatInput = ({
             />
           </div>
 
-          <button
-            type="button"
-            onClick={handleSend}
-            disabled={(!inputValue.trim() && allFiles.length === 0) || disabled}
-            className="flex-shrink-0 p-2.5 bg-blue-600/90 hover:bg-blue-600 disabled:bg-zinc-700/50 disabled:cursor-not-allowed rounded-lg transition-all shadow-sm hover:shadow-blue-500/20 disabled:shadow-none backdrop-blur-sm"
-          >
-            <Send className="w-4 h-4" />
-          </button>
+          {onStop ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="flex-shrink-0 p-2.5 bg-red-600/80 hover:bg-red-600 rounded-lg transition-all shadow-sm hover:shadow-red-500/20 backdrop-blur-sm"
+              title="Stop generating"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleSend}
+              disabled={
+                (!inputValue.trim() && allFiles.length === 0) || disabled
+              }
+              className="flex-shrink-0 p-2.5 bg-blue-600/90 hover:bg-blue-600 disabled:bg-zinc-700/50 disabled:cursor-not-allowed rounded-lg transition-all shadow-sm hover:shadow-blue-500/20 disabled:shadow-none backdrop-blur-sm"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          )}
         </div>
 
         <div className="flex items-center justify-between relative z-10">
@@ -5,17 +5,28 @@ import {
   CheckCircle,
   Code,
   Edit3,
+  Eye,
   File,
+  FileDiff,
   FileText,
+  FolderOpen,
   GitBranch,
   Image,
   Info,
   Navigation,
   Package,
+  Pencil,
+  RefreshCw,
+  RotateCcw,
+  Search,
+  Square,
   Terminal,
   Trash2,
+  Wrench,
+  XCircle,
 } from "lucide-react";
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
+import { formatCost, formatTokens } from "../../projects/components/UsageBadge";
 
 interface Attachment {
   type: "image" | "document";
@@ -31,6 +42,35 @@ interface Message {
   content: string;
   timestamp: string;
   attachments?: Attachment[];
+  operations?: OperationResult[];
+  checkpointId?: string;
+  autoFixAttempt?: number;
+  model?: string;
+  interrupted?: boolean;
+  toolCalls?: ToolCall[];
+  usage?: MessageUsage;
+}
+
+interface MessageUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number;
+}
+
+interface ToolCall {
+  id: string;
+  name: string;
+  target: string;
+  status: "running" | "succeeded" | "failed";
+  error?: string;
+}
+
+interface OperationResult {
+  id: string;
+  type: "write" | "edit" | "rename" | "delete" | "dependency";
+  target: string;
+  status: "pending" | "started" | "succeeded" | "failed" | "rejected";
+  error?: string;
 }
 
 interface ChatMessageProps {
@@ -38,23 +78,48 @@ interface ChatMessageProps {
   formatMessageContent: (content: string) => React.ReactNode[];
   containerId?: string;
   isStreaming?: boolean;
+  onRestore?: (messageId: string) => Promise<void>;
+  onReview?: (messageId: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  previousVersions?: number;
 }
 
+const operationTypes = ["write", "edit", "rename", "delete", "dependency"];
+
+const parseEditHunks = (body: string) => {
+  const hunkPattern =
+    /<<<<<<< SEARCH\r?\n([\s\S]*?)\r?\n?=======\r?\n([\s\S]*?)\r?\n?>>>>>>> REPLACE/g;
+  const hunks: Array<{ search: string; replace: string }> = [];
+
+  let match;
+  while ((match = hunkPattern.exec(body)) !== null) {
+    hunks.push({ search: match[1], replace: match[2] });
+  }
+
+  return hunks;
+};
+
 const parseSpecialTags = (
   content: string,
-  containerId?: string,
-  messageId?: string,
-  executeOperations: boolean = true
+  operations: OperationResult[] = []
 ) => {
   const components: React.ReactNode[] = [];
   let currentIndex = 0;
+  let operationIndex = 0;
 
   const patterns = {
-    write: /<dec-write\s+(?:path|file_path)="([^"]+)">([\s\S]*?)<\/dec-write>/g,
-    rename: /<dec-rename\s+from="([^"]+)"\s+to="([^"]+)"\s*\/>/g,
+    // Operation patterns match backend/src/services/operations.ts
+    write:
+      /<dec-write\s+(?:path|file_path)="([^"]+)"\s*>([\s\S]*?)<\/dec-write>/g,
+    edit: /<dec-edit\s+(?:path|file_path)="([^"]+)"\s*>([\s\S]*?)<\/dec-edit>/g,
+    rename:
+      /<dec-rename\s+(?:from|original_file_path)="([^"]+)"\s+(?:to|new_file_path)="([^"]+)"\s*\/>/g,
     delete: /<dec-delete\s+(?:path|file_path)="([^"]+)"\s*\/>/g,
     dependency:
       /<dec-add-dependency(?:\s+name="([^"]+)"(?:\s+version="([^"]+)")?)?>(.*?)<\/dec-add-dependency>/g,
+    read: /<dec-read\s+(?:path|file_path)="([^"]+)"\s*\/>/g,
+    search: /<dec-search\s+query="([^"]+)"\s*\/>/g,
     code: /<dec-code>([\s\S]*?)<\/dec-code>/g,
     thinking: /<dec-thinking>([\s\S]*?)<\/dec-thinking>/g,
     error: /<dec-error>([\s\S]*?)<\/dec-error>/g,
@@ -72,119 +137,6 @@ const parseSpecialTags = (
     lastDiff: /<last-diff>([\s\S]*?)<\/last-diff>/g,
   };
 
-  const getExecutedKey = (containerId: string) => `executed_${containerId}`;
-
-  const isMessageExecuted = (containerId: string, messageId: string) => {
-    if (typeof window === "undefined") return false;
-    const stored = localStorage.getItem(getExecutedKey(containerId));
-    const executed = new Set(stored ? JSON.parse(stored) : []);
-    return executed.has(messageId);
-  };
-
-  const markMessageExecuted = (containerId: string, messageId: string) => {
-    if (typeof window === "undefined") return;
-    const stored = localStorage.getItem(getExecutedKey(containerId));
-    const executed = new Set(stored ? JSON.parse(stored) : []);
-    executed.add(messageId);
-    localStorage.setItem(
-      getExecutedKey(containerId),
-      JSON.stringify([...executed])
-    );
-  };
-
-  const executeFileOperation = async (type: string, match: RegExpExecArray) => {
-    if (!containerId || !messageId || !executeOperations) return;
-    if (isMessageExecuted(containerId, messageId)) return;
-
-    try {
-      let response;
-
-      switch (type) {
-        case "write":
-          console.log(
-            `[FILE OP] Writing file: ${match[1]} (${
-              match[2].trim().length
-            } chars)`
-          );
-          response = await fetch(
-            `http://localhost:4000/containers/${containerId}/files`,
-            {
-              method: "PUT",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                path: match[1],
-                content: match[2].trim(),
-              }),
-            }
-          );
-          console.log(
-            `[FILE OP] Write file ${match[1]} - Status: ${response.status}`
-          );
-          break;
-        case "rename":
-          console.log(`[FILE OP] Renaming file: ${match[1]} → ${match[2]}`);
-          response = await fetch(
-            `http://localhost:4000/containers/${containerId}/files/rename`,
-            {
-              method: "PUT",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ oldPath: match[1], newPath: match[2] }),
-            }
-          );
-          console.log(
-            `[FILE OP] Rename ${match[1]} → ${match[2]} - Status: ${response.status}`
-          );
-          break;
-        case "delete":
-          console.log(`[FILE OP] Deleting file: ${match[1]}`);
-          response = await fetch(
-            `http://localhost:4000/containers/${containerId}/files`,
-            {
-              method: "DELETE",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ path: match[1] }),
-            }
-          );
-          console.log(
-            `[FILE OP] Delete ${match[1]} - Status: ${response.status}`
-          );
-          break;
-        case "dependency":
-          const packageName = match[1] || match[3]?.trim();
-          const version = match[2];
-          console.log(
-            `[FILE OP] Installing dependency: ${packageName} ${
-              version ? `@${version}` : ""
-            }`
-          );
-          response = await fetch(
-            `http://localhost:4000/containers/${containerId}/dependencies`,
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ packageName, isDev: false }),
-            }
-          );
-          console.log(
-            `[FILE OP] Install ${packageName} - Status: ${response.status}`
-          );
-          break;
-      }
-
-      if (response && !response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
-      }
-
-      console.log(`[FILE OP] ${type} operation completed successfully`);
-      if (messageId && containerId) {
-        markMessageExecuted(containerId, messageId);
-      }
-    } catch (error) {
-      console.error(`[FILE OP] ${type} operation failed:`, error);
-    }
-  };
-
   const allMatches: Array<{
     type: string;
     match: RegExpExecArray;
@@ -231,14 +183,17 @@ const parseSpecialTags = (
       }
     }
 
-    if (
-      ["write", "rename", "delete", "dependency"].includes(type) &&
-      executeOperations
-    ) {
-      executeFileOperation(type, match);
-    }
-
-    if (type !== "code") {
+    if (operationTypes.includes(type)) {
+      // Statuses are matched by the operation id the backend gives each
+      // parsed operation, a dependency tag without a name is not an operation
+      const isOperation =
+        type !== "dependency" || !!(match[1] || match[3]?.trim());
+      const operation = isOperation
+        ? operations.find((op) => op.id.endsWith(`-op-${operationIndex}`))
+        : undefined;
+      components.push(renderSpecialComponent(type, match, index, operation));
+      if (isOperation) operationIndex++;
+    } else if (type !== "code") {
       components.push(renderSpecialComponent(type, match, index));
     }
     currentIndex = end;
@@ -267,10 +222,52 @@ const parseSpecialTags = (
   return components.length > 0 ? components : null;
 };
 
+const renderOperationStatus = (operation?: OperationResult) => {
+  if (!operation) return null;
+
+  switch (operation.status) {
+    case "pending":
+      return (
+        <span title="Awaiting review">
+          <Eye className="w-3.5 h-3.5 text-amber-400" />
+        </span>
+      );
+    case "rejected":
+      return (
+        <span title="Rejected">
+          <XCircle className="w-3.5 h-3.5 text-gray-400" />
+        </span>
+      );
+    case "started":
+      return (
+        <div className="w-3.5 h-3.5 border-2 border-current border-t-transparent rounded-full animate-spin opacity-70" />
+      );
+    case "succeeded":
+      return <CheckCircle className="w-3.5 h-3.5 text-green-400" />;
+    case "failed":
+      return (
+        <span title={operation.error}>
+          <AlertTriangle className="w-3.5 h-3.5 text-red-400" />
+        </span>
+      );
+  }
+};
+
+const renderOperationError = (operation?: OperationResult) => {
+  if (operation?.status !== "failed") return null;
+
+  return (
+    <div className="mt-2 text-xs text-red-300">
+      {operation.error || "Operation failed"}
+    </div>
+  );
+};
+
 const renderSpecialComponent = (
   type: string,
   match: RegExpExecArray,
-  index: number
+  index: number,
+  operation?: OperationResult
 ): React.ReactNode => {
   switch (type) {
     case "write":
@@ -287,11 +284,50 @@ const renderSpecialComponent = (
             <code className="ml-auto text-xs text-blue-300 bg-blue-500/20 px-2 py-0.5 rounded">
               {match[1]}
             </code>
+            {renderOperationStatus(operation)}
           </div>
           <div className="p-3">
             <pre className="bg-gray-800/60 rounded p-3 text-xs overflow-x-auto">
               <code className="text-gray-300">{match[2].trim()}</code>
             </pre>
+            {renderOperationError(operation)}
+          </div>
+        </div>
+      );
+
+    case "edit":
+      return (
+        <div
+          key={`edit-${index}`}
+          className="my-4 bg-sky-500/10 border border-sky-500/30 rounded-lg overflow-hidden"
+        >
+          <div className="flex items-center gap-2 bg-sky-500/20 px-3 py-2 border-b border-sky-500/30">
+            <FileDiff className="w-4 h-4 text-sky-400" />
+            <span className="text-sm font-medium text-sky-400">Edit File</span>
+            <code className="ml-auto text-xs text-sky-300 bg-sky-500/20 px-2 py-0.5 rounded">
+              {match[1]}
+            </code>
+            {renderOperationStatus(operation)}
+          </div>
+          <div className="p-3 space-y-2">
+            {parseEditHunks(match[2]).map((hunk, hunkIndex) => (
+              <pre
+                key={hunkIndex}
+                className="bg-gray-800/60 rounded p-3 text-xs overflow-x-auto"
+              >
+                {hunk.search.split("\n").map((line, i) => (
+                  <div key={`search-${i}`} className="text-red-300">
+                    - {line}
+                  </div>
+                ))}
+                {hunk.replace.split("\n").map((line, i) => (
+                  <div key={`replace-${i}`} className="text-green-300">
+                    + {line}
+                  </div>
+                ))}
+              </pre>
+            ))}
+            {renderOperationError(operation)}
           </div>
         </div>
       );
@@ -307,6 +343,7 @@ const renderSpecialComponent = (
             <span className="text-sm font-medium text-yellow-400">
               Rename File
             </span>
+            <span className="ml-auto">{renderOperationStatus(operation)}</span>
           </div>
           <div className="flex items-center gap-2 text-xs">
             <code className="bg-yellow-500/20 text-yellow-300 px-2 py-1 rounded">
@@ -317,6 +354,7 @@ const renderSpecialComponent = (
               {match[2]}
             </code>
           </div>
+          {renderOperationError(operation)}
         </div>
       );
 
@@ -334,7 +372,33 @@ const renderSpecialComponent = (
             <code className="ml-auto text-xs text-red-300 bg-red-500/20 px-2 py-0.5 rounded">
               {match[1]}
             </code>
+            {renderOperationStatus(operation)}
           </div>
+          {renderOperationError(operation)}
+        </div>
+      );
+
+    case "read":
+      return (
+        <div
+          key={`read-${index}`}
+          className="my-1 flex items-center gap-2 text-xs text-white/60"
+        >
+          <BookOpen className="w-3 h-3" />
+          <span>Read</span>
+          <code className="font-mono truncate">{match[1]}</code>
+        </div>
+      );
+
+    case "search":
+      return (
+        <div
+          key={`search-${index}`}
+          className="my-1 flex items-center gap-2 text-xs text-white/60"
+        >
+          <Search className="w-3 h-3" />
+          <span>Searched for</span>
+          <code className="font-mono truncate">{match[1]}</code>
         </div>
       );
 
@@ -353,7 +417,9 @@ const renderSpecialComponent = (
             <code className="text-xs text-purple-300 bg-purple-500/20 px-2 py-0.5 rounded">
               {packageName}
             </code>
+            <span className="ml-auto">{renderOperationStatus(operation)}</span>
           </div>
+          {renderOperationError(operation)}
         </div>
       );
 
@@ -532,10 +598,35 @@ const renderSpecialComponent = (
 export const ChatMessage: React.FC<ChatMessageProps> = ({
   message,
   formatMessageContent,
-  containerId,
   isStreaming = false,
+  onRestore,
+  onReview,
+  onRegenerate,
+  onEdit,
+  previousVersions = 0,
 }) => {
-  const [hasExecutedOperations, setHasExecutedOperations] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editValue, setEditValue] = useState(message.content);
+
+  const handleRestore = async () => {
+    if (!onRestore || isRestoring) return;
+
+    setIsRestoring(true);
+    try {
+      await onRestore(message.id);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleSubmitEdit = () => {
+    const content = editValue.trim();
+    if (!onEdit || !content) return;
+
+    setIsEditing(false);
+    onEdit(message.id, content);
+  };
 
   const formatTimestamp = (timestamp: string) => {
     const date = new Date(timestamp);
@@ -550,30 +641,26 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i];
   };
 
+  // File changes made through tools already show up as operations
+  const toolActivity = (message.toolCalls || []).filter(
+    (call) =>
+      call.name === "read_file" ||
+      call.name === "list_files" ||
+      (call.status === "failed" &&
+        !message.operations?.some((op) => op.target === call.target))
+  );
+
+  const getToolLabel = (call: ToolCall) => {
+    if (call.name === "read_file") return `Read ${call.target}`;
+    if (call.name === "list_files") return `Listed ${call.target || "/"}`;
+    return `${call.name} ${call.target}`.trim();
+  };
+
   const hasSpecialTags =
     /<dec-|<response_format|<user_message|<ai_message|<examples|<guidelines|<console-logs|<useful-context|<current-route|<instructions-reminder|<last-diff/.test(
       message.content
     );
 
-  useEffect(() => {
-    if (
-      !isStreaming &&
-      !hasExecutedOperations &&
-      hasSpecialTags &&
-      containerId
-    ) {
-      parseSpecialTags(message.content, containerId, message.id, true);
-      setHasExecutedOperations(true);
-    }
-  }, [
-    isStreaming,
-    hasExecutedOperations,
-    hasSpecialTags,
-    containerId,
-    message.content,
-    message.id,
-  ]);
-
   return (
     <div
       className={`flex flex-col ${
@@ -588,6 +675,24 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
             alt="Assistant Avatar"
           />
           <span className="text-sm font-medium text-white/90">Assistant</span>
+          {message.model && (
+            <span className="text-xs text-white/40 px-1.5 rounded bg-white/5">
+              {message.model}
+            </span>
+          )}
+          {message.usage && (
+            <span
+              className="text-xs text-white/40"
+              title={`${message.usage.promptTokens.toLocaleString()} prompt and ${message.usage.completionTokens.toLocaleString()} completion tokens`}
+            >
+              {formatTokens(
+                message.usage.promptTokens + message.usage.completionTokens
+              )}{" "}
+              tokens
+              {message.usage.cost !== undefined &&
+                ` · ${formatCost(message.usage.cost)}`}
+            </span>
+          )}
           <span className="text-xs text-white/40 ml-auto">
             {formatTimestamp(message.timestamp)}
           </span>
@@ -641,18 +746,91 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
             </div>
           )}
 
-          {message.role === "user" ? (
+          {message.role === "user" && message.autoFixAttempt ? (
+            <details>
+              <summary className="flex items-center gap-2 cursor-pointer text-amber-200">
+                <Wrench className="w-3.5 h-3.5" />
+                Auto-fix attempt {message.autoFixAttempt}: build errors sent to
+                the assistant
+              </summary>
+              <pre className="mt-2 max-h-60 overflow-y-auto text-xs whitespace-pre-wrap break-all text-white/70 font-mono">
+                {message.content.match(/```\n([\s\S]*?)\n```/)?.[1] ||
+                  message.content}
+              </pre>
+            </details>
+          ) : message.role === "user" && isEditing ? (
+            <div className="space-y-2">
+              <textarea
+                autoFocus
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSubmitEdit();
+                  } else if (e.key === "Escape") {
+                    setIsEditing(false);
+                  }
+                }}
+                rows={3}
+                className="w-full min-w-64 bg-black/20 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white resize-y focus:outline-none focus:border-blue-400/50"
+              />
+              <div className="flex justify-end gap-2 text-xs">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-2 py-1 text-white/60 hover:text-white hover:bg-white/5 rounded-md"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmitEdit}
+                  disabled={!editValue.trim()}
+                  className="px-2 py-1 bg-blue-600/80 hover:bg-blue-600 disabled:opacity-50 text-white rounded-md"
+                >
+                  Save & resend
+                </button>
+              </div>
+            </div>
+          ) : message.role === "user" ? (
             <div>{message.content}</div>
           ) : (
             <div className="space-y-1">
+              {toolActivity.length > 0 && (
+                <div className="mb-2 space-y-1">
+                  {toolActivity.map((call) => (
+                    <div
+                      key={call.id}
+                      className={`flex items-center gap-2 text-xs ${
+                        call.status === "failed"
+                          ? "text-red-300"
+                          : "text-white/60"
+                      }`}
+                      title={call.error}
+                    >
+                      {call.status === "running" ? (
+                        <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                      ) : call.status === "failed" ? (
+                        <XCircle className="w-3 h-3" />
+                      ) : call.name === "list_files" ? (
+                        <FolderOpen className="w-3 h-3" />
+                      ) : (
+                        <BookOpen className="w-3 h-3" />
+                      )}
+                      <span className="font-mono truncate">
+                        {getToolLabel(call)}
+                      </span>
+                      {call.error && (
+                        <span className="truncate text-red-300/70">
+                          {call.error}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
               {hasSpecialTags ? (
                 <>
-                  {parseSpecialTags(
-                    message.content,
-                    containerId,
-                    message.id,
-                    false
-                  ) || (
+                  {parseSpecialTags(message.content, message.operations) || (
                     <div className="prose prose-sm prose-invert max-w-none [&_h2]:text-white [&_h3]:text-white [&_h4]:text-white [&_strong]:text-white">
                       {formatMessageContent(message.content)}
                     </div>
@@ -668,6 +846,87 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
         </div>
       </div>
 
+      {previousVersions > 0 && (
+        <div
+          className="flex items-center gap-1.5 mt-1.5 px-2 text-xs text-white/40"
+          title="Replaced messages are kept in the chat history"
+        >
+          <GitBranch className="w-3 h-3" />
+          {previousVersions === 1
+            ? "1 earlier version"
+            : `${previousVersions} earlier versions`}
+        </div>
+      )}
+
+      {message.role === "assistant" && message.interrupted && (
+        <div
+          className="flex items-center gap-1.5 mt-1.5 px-2 text-xs text-white/40"
+          title="Files the assistant had not finished writing were not changed"
+        >
+          <Square className="w-3 h-3" />
+          Generation stopped
+        </div>
+      )}
+
+      {message.role === "assistant" &&
+        onReview &&
+        message.operations?.some((op) => op.status === "pending") && (
+          <button
+            onClick={() => onReview(message.id)}
+            className="flex items-center gap-1.5 mt-1.5 px-2 py-1 text-xs text-amber-300 hover:text-amber-200 hover:bg-amber-500/10 rounded-md transition-all cursor-pointer"
+          >
+            <Eye className="w-3 h-3" />
+            Review changes
+          </button>
+        )}
+
+      {message.role === "assistant" &&
+        message.checkpointId &&
+        onRestore &&
+        !isStreaming && (
+          <button
+            onClick={handleRestore}
+            disabled={isRestoring}
+            className="flex items-center gap-1.5 mt-1.5 px-2 py-1 text-xs text-white/50 hover:text-white hover:bg-white/5 rounded-md transition-all disabled:opacity-50 cursor-pointer"
+            title="Restore the project files to how they were before this message"
+          >
+            {isRestoring ? (
+              <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <RotateCcw className="w-3 h-3" />
+            )}
+            Restore to here
+          </button>
+        )}
+
+      {message.role === "assistant" && onRegenerate && !isStreaming && (
+        <button
+          onClick={() => onRegenerate(message.id)}
+          className="flex items-center gap-1.5 mt-1.5 px-2 py-1 text-xs text-white/50 hover:text-white hover:bg-white/5 rounded-md transition-all cursor-pointer"
+          title="Undo this answer's changes and generate a new one"
+        >
+          <RefreshCw className="w-3 h-3" />
+          Regenerate
+        </button>
+      )}
+
+      {message.role === "user" &&
+        onEdit &&
+        !message.autoFixAttempt &&
+        !isEditing && (
+          <button
+            onClick={() => {
+              setEditValue(message.content);
+              setIsEditing(true);
+            }}
+            className="flex items-center gap-1.5 mt-1.5 mr-1 px-2 py-1 text-xs text-white/50 hover:text-white hover:bg-white/5 rounded-md transition-all cursor-pointer"
+            title="Edit this message and resend it, replacing the answers after it"
+          >
+            <Pencil className="w-3 h-3" />
+            Edit
+          </button>
+        )}
+
       {message.role === "user" && (
         <span className="text-xs text-white/40 mt-1.5 mr-2">
           {formatTimestamp(message.timestamp)}
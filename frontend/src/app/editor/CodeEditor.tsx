@@ -9,6 +9,7 @@ import { Directory, File, Type } from "./utils/FileManager";
 
 interface CodeEditorProps {
   containerId: string;
+  onOpenFilesChange?: (paths: string[]) => void;
 }
 
 interface FileItem {
@@ -24,7 +25,10 @@ interface OpenTab {
   isDirty: boolean;
 }
 
-export const CodeEditor: React.FC<CodeEditorProps> = ({ containerId }) => {
+export const CodeEditor: React.FC<CodeEditorProps> = ({
+  containerId,
+  onOpenFilesChange,
+}) => {
   const [rootDir, setRootDir] = useState<Directory | null>(null);
   const [filteredDir, setFilteredDir] = useState<Directory | null>(null);
   const [openTabs, setOpenTabs] = useState<OpenTab[]>([]);
@@ -32,6 +36,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ containerId }) => {
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [basePath, setBasePath] = useState<string>("");
   const [saveStatus, setSaveStatus] = useState<
     "idle" | "saving" | "success" | "error"
   >("idle");
@@ -39,6 +44,14 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ containerId }) => {
   const activeFile =
     activeTabIndex >= 0 ? openTabs[activeTabIndex]?.file : undefined;
 
+  useEffect(() => {
+    onOpenFilesChange?.(
+      openTabs
+        .map((tab) => tab.file.path)
+        .filter((path): path is string => Boolean(path))
+    );
+  }, [openTabs]);
+
   useEffect(() => {
     const fetchFileTree = async () => {
       try {
@@ -54,7 +67,11 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ containerId }) => {
         const data = await response.json();
 
         if (data.success) {
-          const directory = convertToDirectory(data.fileTree);
+          setBasePath(data.basePath);
+          const directory = convertToDirectory(
+            data.fileTree,
+            data.basePath.split("/").pop()
+          );
           setRootDir(directory);
           setFilteredDir(directory);
         }
@@ -135,12 +152,13 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ containerId }) => {
 
   const convertToDirectory = (
     fileItems: FileItem[],
+    rootName: string = "project",
     parentId?: string,
     depth: number = 0
   ): Directory => {
     const rootDir: Directory = {
       id: parentId || "root",
-      name: "my-nextjs-app",
+      name: rootName,
       type: Type.DIRECTORY,
       parentId: undefined,
       depth: 0,
@@ -266,6 +284,11 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ containerId }) => {
           body: JSON.stringify({
             path: activeFile.path,
             content: activeFile.content,
+            commitMessage: `Update ${
+              activeFile.path.startsWith(`${basePath}/`)
+                ? activeFile.path.slice(basePath.length + 1)
+                : activeFile.path
+            }`,
           }),
         }
       );
@@ -0,0 +1,226 @@
+"use client";
+
+import { DiffEditor } from "@monaco-editor/react";
+import { Check, FileDiff, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+  getPendingChanges,
+  Message,
+  PendingChange,
+  resolvePendingChanges,
+} from "../../../lib/backend/api";
+
+interface ChangeReviewProps {
+  containerId: string;
+  messageId: string;
+  onResolved: (message: Message) => void;
+  onClose: () => void;
+}
+
+const getLanguage = (path: string) => {
+  const extension = path.split(".").pop();
+
+  if (extension === "js" || extension === "jsx") return "javascript";
+  if (extension === "ts" || extension === "tsx") return "typescript";
+  return extension;
+};
+
+export const ChangeReview = ({
+  containerId,
+  messageId,
+  onResolved,
+  onClose,
+}: ChangeReviewProps) => {
+  const [changes, setChanges] = useState<PendingChange[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isResolving, setIsResolving] = useState(false);
+
+  useEffect(() => {
+    const fetchChanges = async () => {
+      try {
+        setIsLoading(true);
+        const pendingChanges = await getPendingChanges(containerId, messageId);
+        setChanges(pendingChanges);
+        setSelectedId(pendingChanges[0]?.operationId || null);
+      } catch (error) {
+        console.error("Failed to load pending changes:", error);
+        toast.error("Failed to load pending changes");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchChanges();
+  }, [containerId, messageId]);
+
+  const resolve = async (
+    operationIds: string[],
+    action: "accept" | "reject"
+  ) => {
+    if (operationIds.length === 0 || isResolving) return;
+
+    setIsResolving(true);
+    try {
+      const message = await resolvePendingChanges(
+        containerId,
+        messageId,
+        operationIds,
+        action
+      );
+
+      const remaining = changes.filter(
+        (change) => !operationIds.includes(change.operationId)
+      );
+      setChanges(remaining);
+      setSelectedId(remaining[0]?.operationId || null);
+      onResolved(message);
+
+      if (remaining.length === 0) {
+        onClose();
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} changes:`, error);
+      toast.error(`Failed to ${action} changes. Please try again.`);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const selectedChange = changes.find(
+    (change) => change.operationId === selectedId
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <div className="w-8 h-8 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />
+          <span className="text-white/70 font-medium">Loading changes...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full p-6 relative z-10">
+      <div className="h-full bg-gray-900/40 backdrop-blur-sm rounded-xl border border-gray-800/40 overflow-hidden shadow-2xl shadow-black/20 flex flex-col">
+        <div className="flex items-center justify-between px-3 py-2 bg-gray-800 border-b border-gray-700">
+          <div className="flex items-center gap-2 text-sm text-white/90">
+            <FileDiff className="w-4 h-4 text-blue-400" />
+            <span className="font-medium">Review changes</span>
+            <span className="text-xs text-white/50">
+              {changes.length} change(s) pending
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() =>
+                resolve(
+                  changes.map((change) => change.operationId),
+                  "accept"
+                )
+              }
+              disabled={changes.length === 0 || isResolving}
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded text-xs font-medium bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:text-gray-500 text-white transition-all"
+            >
+              <Check className="w-3 h-3" />
+              Accept all
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded"
+              title="Close review"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {changes.length === 0 ? (
+          <div className="flex flex-1 items-center justify-center text-white/60 text-sm">
+            No pending changes for this message
+          </div>
+        ) : (
+          <main className="flex flex-1 min-h-0">
+            <div className="w-64 bg-gray-900 border-r border-gray-700 overflow-y-auto">
+              {changes.map((change) => (
+                <div
+                  key={change.operationId}
+                  onClick={() => setSelectedId(change.operationId)}
+                  className={`flex items-center gap-2 px-3 py-2 text-xs cursor-pointer border-b border-gray-800 ${
+                    change.operationId === selectedId
+                      ? "bg-gray-800 text-white"
+                      : "text-gray-400 hover:text-white hover:bg-gray-800/60"
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate" title={change.path}>
+                      {change.path}
+                    </div>
+                    {change.type !== "write" && change.type !== "edit" && (
+                      <div className="truncate text-white/40">
+                        {change.type}
+                      </div>
+                    )}
+                    {change.error && (
+                      <div
+                        className="truncate text-red-400"
+                        title={change.error}
+                      >
+                        {change.error}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      resolve([change.operationId], "accept");
+                    }}
+                    disabled={isResolving}
+                    className="p-0.5 text-green-400 hover:bg-green-500/20 rounded"
+                    title="Accept"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      resolve([change.operationId], "reject");
+                    }}
+                    disabled={isResolving}
+                    className="p-0.5 text-red-400 hover:bg-red-500/20 rounded"
+                    title="Reject"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex-1 min-w-0">
+              {selectedChange && (
+                <DiffEditor
+                  height="100%"
+                  theme="vs-dark"
+                  language={getLanguage(selectedChange.path)}
+                  original={selectedChange.original}
+                  modified={selectedChange.proposed}
+                  options={{
+                    readOnly: true,
+                    minimap: { enabled: false },
+                    fontSize: 13,
+                    automaticLayout: true,
+                    renderSideBySide: true,
+                    scrollBeyondLastLine: false,
+                  }}
+                />
+              )}
+            </div>
+          </main>
+        )}
+      </div>
+    </div>
+  );
+};
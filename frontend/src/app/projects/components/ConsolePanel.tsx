@@ -0,0 +1,102 @@
+"use client";
+
+import { ChevronDown, ChevronUp, Terminal, Trash2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { ConsoleLogEntry } from "../../../lib/backend/api";
+
+interface ConsolePanelProps {
+  logs: ConsoleLogEntry[];
+  onClear: () => void;
+}
+
+const levelStyles: Record<ConsoleLogEntry["level"], string> = {
+  log: "text-gray-300",
+  info: "text-blue-300",
+  warn: "text-yellow-300 bg-yellow-500/5",
+  error: "text-red-300 bg-red-500/10",
+  debug: "text-gray-500",
+};
+
+export const ConsolePanel = ({ logs, onClear }: ConsolePanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const errorCount = logs.filter((log) => log.level === "error").length;
+  const warningCount = logs.filter((log) => log.level === "warn").length;
+
+  useEffect(() => {
+    if (isOpen) {
+      bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [logs, isOpen]);
+
+  return (
+    <div className="border-t border-gray-800/60 bg-gray-950/80">
+      <div
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-between px-3 py-1.5 cursor-pointer select-none"
+      >
+        <div className="flex items-center gap-2 text-xs text-white/80">
+          <Terminal className="w-3.5 h-3.5 text-blue-400" />
+          <span className="font-medium">Console</span>
+          {errorCount > 0 && (
+            <span className="px-1.5 rounded bg-red-500/20 text-red-300">
+              {errorCount} error{errorCount === 1 ? "" : "s"}
+            </span>
+          )}
+          {warningCount > 0 && (
+            <span className="px-1.5 rounded bg-yellow-500/20 text-yellow-300">
+              {warningCount} warning{warningCount === 1 ? "" : "s"}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onClear();
+            }}
+            disabled={logs.length === 0}
+            className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 disabled:text-gray-600 disabled:hover:bg-transparent rounded"
+            title="Clear console"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+          {isOpen ? (
+            <ChevronDown className="w-4 h-4 text-gray-400" />
+          ) : (
+            <ChevronUp className="w-4 h-4 text-gray-400" />
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="h-48 overflow-y-auto font-mono text-xs border-t border-gray-800/60">
+          {logs.length === 0 ? (
+            <div className="px-3 py-2 text-gray-500">No console output yet</div>
+          ) : (
+            logs.map((log, index) => (
+              <div
+                key={`${log.timestamp}-${index}`}
+                className={`flex gap-3 px-3 py-1 border-b border-gray-800/40 ${
+                  levelStyles[log.level] || levelStyles.log
+                }`}
+              >
+                <span className="text-gray-600 shrink-0">
+                  {new Date(log.timestamp).toLocaleTimeString()}
+                </span>
+                <span className="whitespace-pre-wrap break-all flex-1">
+                  {log.message}
+                </span>
+                {log.url && (
+                  <span className="text-gray-600 shrink-0">{log.url}</span>
+                )}
+              </div>
+            ))
+          )}
+          <div ref={bottomRef} />
+        </div>
+      )}
+    </div>
+  );
+};
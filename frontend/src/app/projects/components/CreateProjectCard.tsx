@@ -1,8 +1,13 @@
 "use client";
 
 import { Plus } from "lucide-react";
-import { useState } from "react";
-import { createContainer } from "../../../lib/backend/api";
+import { useEffect, useRef, useState } from "react";
+import {
+  createContainer,
+  CreationEvent,
+  streamCreationJob,
+} from "../../../lib/backend/api";
+import { CreationProgress } from "./CreationProgress";
 
 interface CreateProjectCardProps {
   onProjectCreated: () => void;
@@ -12,16 +17,39 @@ export const CreateProjectCard = ({
   onProjectCreated,
 }: CreateProjectCardProps) => {
   const [isCreating, setIsCreating] = useState(false);
+  const [events, setEvents] = useState<CreationEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const stopStreamRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopStreamRef.current?.(), []);
 
   const handleCreateProject = async () => {
+    if (isCreating) return;
+
     setIsCreating(true);
+    setEvents([]);
+    setError(null);
+
+    const handleError = (message: string) => {
+      console.error("Failed to create project:", message);
+      setError(message);
+      setIsCreating(false);
+    };
+
     try {
-      await createContainer();
-      onProjectCreated();
+      const { jobId } = await createContainer();
+
+      stopStreamRef.current = streamCreationJob(
+        jobId,
+        (event) => setEvents((current) => [...current, event]),
+        () => {
+          setIsCreating(false);
+          onProjectCreated();
+        },
+        handleError
+      );
     } catch (error) {
-      console.error("Failed to create project:", error);
-    } finally {
-      setIsCreating(false);
+      handleError(error instanceof Error ? error.message : "Unknown error");
     }
   };
 
@@ -32,24 +60,13 @@ export const CreateProjectCard = ({
     >
       <div className="absolute inset-0 bg-gradient-to-br from-white/[0.02] via-transparent to-transparent rounded-xl opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
 
-      <div className="relative z-10 flex flex-col items-center">
-        {isCreating ? (
-          <div className="flex flex-col items-center gap-4">
-            <div className="relative">
-              <div className="w-14 h-14 bg-gradient-to-br from-blue-500 via-purple-600 to-pink-500 rounded-xl flex items-center justify-center shadow-lg">
-                <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-              </div>
-              <div className="absolute inset-0 bg-gradient-to-br from-blue-500 via-purple-600 to-pink-500 rounded-xl animate-pulse opacity-30"></div>
-            </div>
-            <div className="text-center">
-              <span className="text-lg font-semibold text-white mb-2 block">
-                Creating project... (the first time will take a bit longer due
-                to container setup)
-              </span>
-              <span className="text-sm text-white/60">
-                Setting up your container
-              </span>
-            </div>
+      <div className="relative z-10 flex flex-col items-center w-full">
+        {isCreating || error ? (
+          <div className="flex flex-col items-center gap-4 w-full">
+            <span className="text-lg font-semibold text-white block">
+              {error ? "Could not create project" : "Creating project..."}
+            </span>
+            <CreationProgress events={events} error={error} />
           </div>
         ) : (
           <div className="flex flex-col items-center gap-4 text-white/70 group-hover:text-white transition-colors duration-300">
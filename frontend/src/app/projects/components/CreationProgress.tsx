@@ -0,0 +1,76 @@
+"use client";
+
+import { AlertCircle, Check, Loader2 } from "lucide-react";
+import { CreationEvent, CreationStage } from "../../../lib/backend/api";
+
+interface CreationProgressProps {
+  events: CreationEvent[];
+  error?: string | null;
+}
+
+const steps: Array<{ stage: CreationStage; label: string }> = [
+  { stage: "image", label: "Preparing base image" },
+  { stage: "install", label: "Installing dependencies" },
+  { stage: "container", label: "Starting container" },
+  { stage: "dev-server", label: "Starting dev server" },
+];
+
+const stageOrder: CreationStage[] = [
+  "queued",
+  "image",
+  "install",
+  "container",
+  "dev-server",
+  "ready",
+];
+
+export const CreationProgress = ({ events, error }: CreationProgressProps) => {
+  const currentStage = events[events.length - 1]?.stage || "queued";
+  const currentIndex = stageOrder.indexOf(currentStage);
+  const recentEvents = events.slice(-6);
+
+  return (
+    <div className="w-full text-left">
+      <div className="flex flex-col gap-2 mb-3">
+        {steps.map((step) => {
+          const stepIndex = stageOrder.indexOf(step.stage);
+          // Cached base images skip the install step, it still counts as done
+          const isDone = currentIndex > stepIndex;
+          const isActive = currentIndex === stepIndex;
+
+          return (
+            <div
+              key={step.stage}
+              className={`flex items-center gap-2 text-sm ${
+                isDone || isActive ? "text-white" : "text-white/40"
+              }`}
+            >
+              {isActive && error ? (
+                <AlertCircle className="w-4 h-4 text-red-400" />
+              ) : isActive ? (
+                <Loader2 className="w-4 h-4 animate-spin text-purple-400" />
+              ) : isDone ? (
+                <Check className="w-4 h-4 text-green-400" />
+              ) : (
+                <span className="w-4 h-4 rounded-full border border-white/20" />
+              )}
+              <span>{step.label}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {recentEvents.length > 0 && (
+        <div className="bg-black/40 border border-white/10 rounded-md p-2 font-mono text-[11px] text-white/60 max-h-32 overflow-hidden">
+          {recentEvents.map((event, index) => (
+            <div key={`${event.timestamp}-${index}`} className="truncate">
+              {event.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+    </div>
+  );
+};
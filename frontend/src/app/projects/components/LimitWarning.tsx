@@ -0,0 +1,47 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { LimitStatus } from "../../../lib/backend/api";
+import { formatCost, formatTokens } from "./UsageBadge";
+
+interface LimitWarningProps {
+  limits: LimitStatus[];
+}
+
+const formatAmount = (status: LimitStatus, amount: number) =>
+  status.metric === "cost" ? formatCost(amount) : formatTokens(amount);
+
+export const LimitWarning = ({ limits }: LimitWarningProps) => {
+  // Show the limit closest to blocking the chat
+  const status = limits
+    .filter((limit) => limit.state !== "ok")
+    .sort(
+      (a, b) =>
+        Number(b.state === "exceeded") - Number(a.state === "exceeded") ||
+        b.used / b.limit - a.used / a.limit
+    )[0];
+
+  if (!status) return null;
+
+  const isExceeded = status.state === "exceeded";
+  const scope = status.scope === "project" ? "Project" : "All projects";
+  const period = status.period === "day" ? "daily" : "monthly";
+
+  return (
+    <div
+      className={`flex items-center gap-2 mx-4 mt-2 px-3 py-2 rounded-md text-xs border ${
+        isExceeded
+          ? "bg-red-500/10 text-red-300 border-red-500/30"
+          : "bg-amber-500/10 text-amber-300 border-amber-500/30"
+      }`}
+    >
+      <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+      <span>
+        {isExceeded ? "Limit reached: " : ""}
+        {scope} {period} budget {formatAmount(status, status.used)} of{" "}
+        {formatAmount(status, status.limit)} used, resets{" "}
+        {new Date(status.resetsAt).toLocaleString()}
+      </span>
+    </div>
+  );
+};
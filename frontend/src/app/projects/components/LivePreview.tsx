@@ -1,20 +1,68 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { Container, getContainers } from "../../../lib/backend/api";
+import { useEffect, useRef, useState } from "react";
+import {
+  ConsoleLogEntry,
+  Container,
+  getContainers,
+  sendConsoleLogs,
+} from "../../../lib/backend/api";
 
 interface LivePreviewProps {
   containerId: string;
   isDesktopView?: boolean;
+  onConsoleLog?: (entry: ConsoleLogEntry) => void;
 }
 
 export const LivePreview = ({
   containerId,
   isDesktopView = true,
+  onConsoleLog,
 }: LivePreviewProps) => {
   const [container, setContainer] = useState<Container | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const pendingLogsRef = useRef<ConsoleLogEntry[]>([]);
+  const onConsoleLogRef = useRef(onConsoleLog);
+  onConsoleLogRef.current = onConsoleLog;
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      // Only the preview iframe may report console output
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      if (event.data?.source !== "december-preview") return;
+
+      const entry: ConsoleLogEntry = {
+        level: event.data.level,
+        message: event.data.message,
+        url: event.data.url,
+        timestamp: event.data.timestamp,
+      };
+
+      pendingLogsRef.current.push(entry);
+      onConsoleLogRef.current?.(entry);
+    };
+
+    const flushLogs = () => {
+      if (pendingLogsRef.current.length === 0) return;
+
+      const logs = pendingLogsRef.current;
+      pendingLogsRef.current = [];
+      sendConsoleLogs(containerId, logs).catch((error) =>
+        console.error("Failed to send console logs:", error)
+      );
+    };
+
+    window.addEventListener("message", handleMessage);
+    const interval = setInterval(flushLogs, 1000);
+
+    return () => {
+      window.removeEventListener("message", handleMessage);
+      clearInterval(interval);
+      flushLogs();
+    };
+  }, [containerId]);
 
   useEffect(() => {
     const fetchContainer = async () => {
@@ -130,6 +178,7 @@ export const LivePreview = ({
         </div>
       </div>
       <iframe
+        ref={iframeRef}
         src={container.url}
         className="w-full h-full border-0 relative z-10"
         title={`Preview of ${container.name || container.id}`}
@@ -158,6 +207,7 @@ export const LivePreview = ({
 
           <div className="w-full h-full">
             <iframe
+              ref={iframeRef}
               src={container.url}
               className="w-full h-full border-0 rounded-[1.8rem]"
               title={`Mobile Preview of ${container.name || container.id}`}
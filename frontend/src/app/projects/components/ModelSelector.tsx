@@ -0,0 +1,56 @@
+"use client";
+
+import { Cpu } from "lucide-react";
+import { useEffect, useState } from "react";
+import { getModels, ModelInfo } from "../../../lib/backend/api";
+
+interface ModelSelectorProps {
+  value: string | null;
+  onChange: (modelId: string) => void;
+  disabled?: boolean;
+}
+
+export const ModelSelector = ({
+  value,
+  onChange,
+  disabled = false,
+}: ModelSelectorProps) => {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [defaultModel, setDefaultModel] = useState<string>("default");
+
+  useEffect(() => {
+    getModels()
+      .then((response) => {
+        setModels(response.models);
+        setDefaultModel(response.defaultModel);
+      })
+      .catch((error) => console.error("Failed to load models:", error));
+  }, []);
+
+  if (models.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-white/60">
+      <Cpu className="w-3.5 h-3.5" />
+      <select
+        value={value || defaultModel}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="max-w-40 bg-transparent text-white/80 hover:text-white focus:outline-none cursor-pointer disabled:opacity-50"
+        title="Model used for the next message"
+      >
+        {models.map((model) => (
+          <option
+            key={model.id}
+            value={model.id}
+            disabled={!model.available}
+            className="bg-gray-900"
+          >
+            {model.name}
+            {model.available ? "" : " (not configured)"}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
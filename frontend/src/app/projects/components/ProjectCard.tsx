@@ -1,26 +1,34 @@
 "use client";
 
-import { Code, ExternalLink, Play, Square, Trash2 } from "lucide-react";
+import { Code, ExternalLink, Pencil, Play, Square, Trash2 } from "lucide-react";
 import { useState } from "react";
 import {
   Container,
   deleteContainer,
   startContainer,
   stopContainer,
+  updateProject,
+  UsageSummary,
 } from "../../../lib/backend/api";
+import { UsageBadge } from "./UsageBadge";
 
 interface ProjectCardProps {
   container: Container;
   onStatusChange: () => void;
+  usage?: UsageSummary;
 }
 
 export const ProjectCard = ({
   container,
   onStatusChange,
+  usage,
 }: ProjectCardProps) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editName, setEditName] = useState("");
+  const [editDescription, setEditDescription] = useState("");
   const isRunning = container.status === "running";
 
   const handleToggleStatus = async () => {
@@ -52,6 +60,27 @@ export const ProjectCard = ({
     }
   };
 
+  const handleStartEdit = () => {
+    setEditName(container.name || "");
+    setEditDescription(container.description || "");
+    setIsEditing(true);
+  };
+
+  const handleSaveDetails = async () => {
+    if (!editName.trim()) return;
+
+    try {
+      await updateProject(container.id, {
+        name: editName,
+        description: editDescription,
+      });
+      setIsEditing(false);
+      onStatusChange();
+    } catch (error) {
+      console.error("Failed to update project:", error);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       month: "short",
@@ -96,6 +125,13 @@ export const ProjectCard = ({
                 {isRunning ? "Running" : "Stopped"}
               </span>
             </div>
+            <button
+              onClick={handleStartEdit}
+              className="p-2 text-white/40 hover:text-white hover:bg-white/10 rounded-lg transition-all duration-200 backdrop-blur-sm border border-transparent hover:border-white/20"
+              title="Edit details"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
             <button
               onClick={() => setShowDeleteConfirm(true)}
               disabled={isDeleting}
@@ -106,26 +142,77 @@ export const ProjectCard = ({
           </div>
         </div>
 
-        <div className="mb-6">
-          <h3
-            className="text-lg font-semibold text-white mb-2 truncate"
-            title={
-              container.name?.replace("/", "") ||
-              `project-${container.id.slice(0, 8)}`
-            }
-          >
-            {getProjectName()}
-          </h3>
-          <div className="flex items-center gap-2 mb-3">
-            <div className="w-1.5 h-1.5 bg-blue-400 rounded-full"></div>
-            <p className="text-sm text-white/70 font-medium">
-              Next.js Application
-            </p>
+        {isEditing ? (
+          <div className="mb-6 space-y-2">
+            <input
+              autoFocus
+              value={editName}
+              onChange={(e) => setEditName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSaveDetails();
+                if (e.key === "Escape") setIsEditing(false);
+              }}
+              placeholder="Project name"
+              className="w-full bg-black/30 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-white/40"
+            />
+            <textarea
+              value={editDescription}
+              onChange={(e) => setEditDescription(e.target.value)}
+              placeholder="Description"
+              rows={2}
+              className="w-full bg-black/30 border border-white/20 rounded-lg px-3 py-2 text-xs text-white resize-none focus:outline-none focus:border-white/40"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={handleSaveDetails}
+                disabled={!editName.trim()}
+                className="px-3 py-1.5 bg-white/10 hover:bg-white/15 text-white border border-white/20 rounded-lg text-xs font-medium disabled:opacity-50"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1.5 text-white/60 hover:text-white text-xs font-medium"
+              >
+                Cancel
+              </button>
+            </div>
           </div>
-          <p className="text-xs text-white/50">
-            Created {formatDate(container.created)}
-          </p>
-        </div>
+        ) : (
+          <div className="mb-6">
+            <h3
+              className="text-lg font-semibold text-white mb-2 truncate"
+              title={
+                container.name?.replace("/", "") ||
+                `project-${container.id.slice(0, 8)}`
+              }
+            >
+              {getProjectName()}
+            </h3>
+            <div className="flex items-center gap-2 mb-3">
+              <div className="w-1.5 h-1.5 bg-blue-400 rounded-full"></div>
+              <p className="text-sm text-white/70 font-medium">
+                {container.template}
+              </p>
+            </div>
+            {container.description && (
+              <p
+                className="text-xs text-white/60 mb-3 line-clamp-2"
+                title={container.description}
+              >
+                {container.description}
+              </p>
+            )}
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-white/50">
+                Created {formatDate(container.created)}
+                {container.lastOpenedAt &&
+                  ` · Opened ${formatDate(container.lastOpenedAt)}`}
+              </p>
+              <UsageBadge usage={usage} />
+            </div>
+          </div>
+        )}
 
         {container.assignedPort && (
           <div className="mb-6 bg-black/20 backdrop-blur-sm rounded-lg px-3 py-2 border border-white/10">
@@ -2,16 +2,26 @@
 
 import { Paperclip, Sparkles } from "lucide-react";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { toast } from "react-hot-toast";
-import { createContainer } from "../../../lib/backend/api";
+import {
+  createContainer,
+  CreationEvent,
+  getModels,
+  ModelInfo,
+  streamCreationJob,
+  TemplateInfo,
+} from "../../../lib/backend/api";
+import { CreationProgress } from "./CreationProgress";
 
 interface ProjectPromptInterfaceProps {
+  templates: TemplateInfo[];
   selectedTemplate: string;
-  onTemplateChange: (template: string) => void;
+  onTemplateChange: (templateId: string) => void;
 }
 
 export const ProjectPromptInterface = ({
+  templates,
   selectedTemplate,
   onTemplateChange,
 }: ProjectPromptInterfaceProps) => {
@@ -19,37 +29,68 @@ export const ProjectPromptInterface = ({
   const [isCreatingFromPrompt, setIsCreatingFromPrompt] = useState(false);
   const [showCommunityDropdown, setShowCommunityDropdown] = useState(false);
   const [showModelDropdown, setShowModelDropdown] = useState(false);
-  const [selectedModel, setSelectedModel] = useState("Claude Sonnet 4");
+  const [modelOptions, setModelOptions] = useState<ModelInfo[]>([]);
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
+  const [creationEvents, setCreationEvents] = useState<CreationEvent[]>([]);
+  const [creationError, setCreationError] = useState<string | null>(null);
+  const stopCreationStreamRef = useRef<(() => void) | null>(null);
   const router = useRouter();
 
+  useEffect(() => () => stopCreationStreamRef.current?.(), []);
+
+  useEffect(() => {
+    getModels()
+      .then((response) => {
+        setModelOptions(response.models);
+        setSelectedModel(
+          localStorage.getItem("selectedModel") || response.defaultModel
+        );
+      })
+      .catch((error) => console.error("Failed to load models:", error));
+  }, []);
+
+  const selectedModelName =
+    modelOptions.find((model) => model.id === selectedModel)?.name ||
+    "Default model";
+
   const handlePromptSubmit = async () => {
     if (!promptInput.trim() || isCreatingFromPrompt) return;
 
+    const prompt = promptInput.trim();
     setIsCreatingFromPrompt(true);
+    setCreationEvents([]);
+    setCreationError(null);
 
-    toast("Creating new project...", {
-      icon: "🚀",
-      duration: 3000,
-    });
+    const handleError = (error: string) => {
+      console.error("Failed to create project from prompt:", error);
+      setCreationError(error);
+      setIsCreatingFromPrompt(false);
+      toast.error("Failed to create project. Please try again.");
+    };
 
     try {
-      const containerResponse = await createContainer();
-      const containerId = containerResponse.containerId;
-
-      toast.success("Project created! Redirecting...", {
-        duration: 2000,
+      const { jobId } = await createContainer({
+        prompt,
+        templateId: selectedTemplate,
       });
 
-      router.push(
-        `/projects/${containerId}?prompt=${encodeURIComponent(
-          promptInput.trim()
-        )}`
+      stopCreationStreamRef.current = streamCreationJob(
+        jobId,
+        (event) => setCreationEvents((events) => [...events, event]),
+        (job) => {
+          toast.success("Project created! Redirecting...", {
+            duration: 2000,
+          });
+
+          const params = new URLSearchParams({ prompt });
+          if (selectedModel) params.set("model", selectedModel);
+
+          router.push(`/projects/${job.containerId}?${params}`);
+        },
+        handleError
       );
     } catch (error) {
-      console.error("Failed to create project from prompt:", error);
-      toast.error("Failed to create project. Please try again.");
-    } finally {
-      setIsCreatingFromPrompt(false);
+      handleError(error instanceof Error ? error.message : "Unknown error");
     }
   };
 
@@ -60,22 +101,24 @@ export const ProjectPromptInterface = ({
     }
   };
 
-  const communityOptions = [
-    "Next.js",
-    "Express & React",
-    "Express & Vue",
-    "Django",
-  ];
+  const communityOptions = templates.filter((template) => template.installed);
+  const selectedTemplateName =
+    templates.find((template) => template.id === selectedTemplate)?.name ||
+    selectedTemplate;
 
-  const modelOptions = ["Claude Sonnet 4"];
-
-  const handleCommunitySelect = (option: string) => {
-    onTemplateChange(option);
+  const handleCommunitySelect = (templateId: string) => {
+    onTemplateChange(templateId);
     setShowCommunityDropdown(false);
   };
 
-  const handleModelSelect = (option: string) => {
-    setSelectedModel(option);
+  const handleModelSelect = (option: ModelInfo) => {
+    if (!option.available) {
+      toast.error(`${option.name} is not configured in config.ts`);
+      return;
+    }
+
+    setSelectedModel(option.id);
+    localStorage.setItem("selectedModel", option.id);
     setShowModelDropdown(false);
   };
 
@@ -140,7 +183,7 @@ export const ProjectPromptInterface = ({
                         }}
                       >
                         <Sparkles className="w-3.5 h-3.5 text-purple-400" />
-                        <span>{selectedTemplate}...</span>
+                        <span>{selectedTemplateName}...</span>
                         <svg
                           height="12"
                           strokeLinejoin="round"
@@ -163,11 +206,11 @@ export const ProjectPromptInterface = ({
                         <div className="absolute top-full left-0 mt-2 w-48 bg-gray-900/90 backdrop-blur-xl border border-gray-600/30 rounded-lg shadow-xl z-50 bg-gradient-to-br from-white/[0.08] to-white/[0.02]">
                           {communityOptions.map((option) => (
                             <button
-                              key={option}
-                              onClick={() => handleCommunitySelect(option)}
+                              key={option.id}
+                              onClick={() => handleCommunitySelect(option.id)}
                               className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:text-white hover:bg-white/10 first:rounded-t-lg last:rounded-b-lg transition-all duration-200 cursor-pointer"
                             >
-                              {option}
+                              {option.name}
                             </button>
                           ))}
                         </div>
@@ -183,7 +226,7 @@ export const ProjectPromptInterface = ({
                           setShowCommunityDropdown(false);
                         }}
                       >
-                        <span>{selectedModel}</span>
+                        <span>{selectedModelName}</span>
                         <svg
                           height="12"
                           strokeLinejoin="round"
@@ -203,14 +246,26 @@ export const ProjectPromptInterface = ({
                       </button>
 
                       {showModelDropdown && (
-                        <div className="absolute top-full left-0 mt-2 w-40 bg-gray-900/90 backdrop-blur-xl border border-gray-600/30 rounded-lg shadow-xl z-50 bg-gradient-to-br from-white/[0.08] to-white/[0.02]">
+                        <div className="absolute top-full left-0 mt-2 w-64 bg-gray-900/90 backdrop-blur-xl border border-gray-600/30 rounded-lg shadow-xl z-50 bg-gradient-to-br from-white/[0.08] to-white/[0.02]">
                           {modelOptions.map((option) => (
                             <button
-                              key={option}
+                              key={option.id}
+                              type="button"
                               onClick={() => handleModelSelect(option)}
-                              className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:text-white hover:bg-white/10 first:rounded-t-lg last:rounded-b-lg transition-all duration-200 cursor-pointer"
+                              className={`w-full text-left px-3 py-2 text-sm hover:bg-white/10 first:rounded-t-lg last:rounded-b-lg transition-all duration-200 cursor-pointer ${
+                                option.id === selectedModel
+                                  ? "text-white"
+                                  : option.available
+                                    ? "text-gray-300 hover:text-white"
+                                    : "text-gray-500"
+                              }`}
                             >
-                              {option}
+                              <div>{option.name}</div>
+                              <div className="text-xs text-gray-500">
+                                {option.available
+                                  ? option.model
+                                  : "Not configured"}
+                              </div>
                             </button>
                           ))}
                         </div>
@@ -268,6 +323,15 @@ export const ProjectPromptInterface = ({
                 )}
               </div>
             </form>
+
+            {(isCreatingFromPrompt || creationError) && (
+              <div className="mt-3 bg-gray-900/30 border border-gray-700/30 rounded-xl p-4 backdrop-blur-xl">
+                <CreationProgress
+                  events={creationEvents}
+                  error={creationError}
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
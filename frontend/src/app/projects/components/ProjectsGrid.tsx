@@ -1,21 +1,36 @@
 "use client";
 
-import { Calendar, MoreHorizontal, Play, Square, Trash2 } from "lucide-react";
+import {
+  Calendar,
+  MoreHorizontal,
+  Pencil,
+  Play,
+  Square,
+  Trash2,
+} from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 import {
   Container,
   deleteContainer,
   getContainers,
+  getUsage,
   startContainer,
   stopContainer,
+  updateProject,
+  UsageResponse,
 } from "../../../lib/backend/api";
+import { UsageBadge } from "./UsageBadge";
 
 export const ProjectsGrid = () => {
   const [containers, setContainers] = useState<Container[]>([]);
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [dropdownOpen, setDropdownOpen] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editDescription, setEditDescription] = useState("");
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   const fetchContainers = async () => {
@@ -23,6 +38,10 @@ export const ProjectsGrid = () => {
       setError(null);
       const data = await getContainers();
       setContainers(data);
+
+      getUsage()
+        .then(setUsage)
+        .catch((err) => console.error("Failed to load usage:", err));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch projects");
     } finally {
@@ -88,6 +107,31 @@ export const ProjectsGrid = () => {
     }
   };
 
+  const handleStartEdit = (container: Container) => {
+    setEditingId(container.id);
+    setEditName(container.name || "");
+    setEditDescription(container.description || "");
+    setDropdownOpen(null);
+  };
+
+  const handleSaveDetails = async (container: Container) => {
+    if (!editName.trim()) return;
+
+    setActionLoading(container.id);
+    try {
+      await updateProject(container.id, {
+        name: editName,
+        description: editDescription,
+      });
+      setEditingId(null);
+      fetchContainers();
+    } catch (error) {
+      console.error("Failed to update project:", error);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       month: "short",
@@ -184,34 +228,90 @@ export const ProjectsGrid = () => {
               />
             </div>
 
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center gap-3 mb-1">
-                <h3 className="text-white font-medium text-base truncate">
-                  {container.name?.replace("/", "") ||
-                    `dec-nextjs-${container.id.slice(0, 8)}`}
-                </h3>
-                <span
-                  className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                    container.status === "running"
-                      ? "bg-green-500/20 text-green-400 border border-green-500/30"
-                      : "bg-gray-500/20 text-gray-400 border border-gray-500/30"
-                  }`}
-                >
-                  {container.status === "running" ? "Running" : "Exited"}
-                </span>
+            {editingId === container.id ? (
+              <div className="flex-1 min-w-0 space-y-2">
+                <input
+                  autoFocus
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleSaveDetails(container);
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  placeholder="Project name"
+                  className="w-full bg-gray-800/80 border border-gray-600/50 rounded-md px-3 py-1.5 text-sm text-white focus:outline-none focus:border-gray-500"
+                />
+                <input
+                  value={editDescription}
+                  onChange={(e) => setEditDescription(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleSaveDetails(container);
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  placeholder="Description"
+                  className="w-full bg-gray-800/80 border border-gray-600/50 rounded-md px-3 py-1.5 text-sm text-white focus:outline-none focus:border-gray-500"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleSaveDetails(container)}
+                    disabled={
+                      !editName.trim() || actionLoading === container.id
+                    }
+                    className="px-3 py-1 bg-gray-700/50 hover:bg-gray-600/60 text-white border border-gray-600/50 rounded-md text-sm font-medium transition-all duration-200 cursor-pointer disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 text-gray-400 hover:text-white text-sm font-medium transition-all duration-200 cursor-pointer"
+                  >
+                    Cancel
+                  </button>
+                </div>
               </div>
-
-              <div className="flex items-center gap-4 text-sm text-gray-400">
-                <div className="flex items-center gap-1">
-                  <Calendar className="w-4 h-4" />
-                  <span>Created {formatDate(container.created)}</span>
+            ) : (
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-3 mb-1">
+                  <h3
+                    className="text-white font-medium text-base truncate"
+                    title={container.containerName}
+                  >
+                    {container.name?.replace("/", "") ||
+                      `dec-project-${container.id.slice(0, 8)}`}
+                  </h3>
+                  <span
+                    className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                      container.status === "running"
+                        ? "bg-green-500/20 text-green-400 border border-green-500/30"
+                        : "bg-gray-500/20 text-gray-400 border border-gray-500/30"
+                    }`}
+                  >
+                    {container.status === "running" ? "Running" : "Exited"}
+                  </span>
                 </div>
-                {container.assignedPort && (
-                  <span>Port :{container.assignedPort}</span>
+
+                {container.description && (
+                  <p className="text-sm text-gray-300 truncate mb-1">
+                    {container.description}
+                  </p>
                 )}
-                <span>Next.js</span>
+
+                <div className="flex items-center gap-4 text-sm text-gray-400">
+                  <div className="flex items-center gap-1">
+                    <Calendar className="w-4 h-4" />
+                    <span>Created {formatDate(container.created)}</span>
+                  </div>
+                  {container.lastOpenedAt && (
+                    <span>Opened {formatDate(container.lastOpenedAt)}</span>
+                  )}
+                  {container.assignedPort && (
+                    <span>Port :{container.assignedPort}</span>
+                  )}
+                  <span>{container.template}</span>
+                  <UsageBadge usage={usage?.projects[container.id]} />
+                </div>
               </div>
-            </div>
+            )}
 
             <div className="flex items-center gap-2 flex-shrink-0">
               {container.status !== "running" && (
@@ -283,6 +383,17 @@ export const ProjectsGrid = () => {
                       </button>
                     )}
 
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleStartEdit(container);
+                      }}
+                      className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:text-white hover:bg-gray-700/50 transition-all duration-200 flex items-center gap-2"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                      Edit details
+                    </button>
+
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
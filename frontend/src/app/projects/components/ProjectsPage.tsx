@@ -1,25 +1,38 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { getTemplates, TemplateInfo } from "../../../lib/backend/api";
 import { ProjectPromptInterface } from "./ProjectPromptInterface";
 import { ProjectsGrid } from "./ProjectsGrid";
 import { ProjectsLayout } from "./ProjectsLayout";
 import { TemplatesSection } from "./TemplatesSection";
 
 export const ProjectsPage = () => {
-  const [selectedTemplate, setSelectedTemplate] = useState("Next.js");
+  const [templates, setTemplates] = useState<TemplateInfo[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState("nextjs");
 
-  const handleTemplateSelect = (template: any) => {
-    setSelectedTemplate(template.name);
+  useEffect(() => {
+    getTemplates()
+      .then((response) => {
+        setTemplates(response.templates);
+        setSelectedTemplate(response.defaultTemplate);
+      })
+      .catch((error) => console.error("Failed to load templates:", error));
+  }, []);
+
+  const handleTemplateSelect = (template: TemplateInfo) => {
+    setSelectedTemplate(template.id);
   };
 
   return (
     <ProjectsLayout>
       <ProjectPromptInterface
+        templates={templates}
         selectedTemplate={selectedTemplate}
         onTemplateChange={setSelectedTemplate}
       />
       <TemplatesSection
+        templates={templates}
         selectedTemplate={selectedTemplate}
         onTemplateSelect={handleTemplateSelect}
       />
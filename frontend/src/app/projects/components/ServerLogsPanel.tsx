@@ -0,0 +1,171 @@
+"use client";
+
+import { Pause, Play, RefreshCw, ScrollText, Trash2, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import {
+  ContainerLogEntry,
+  streamContainerLogs,
+} from "../../../lib/backend/api";
+
+interface ServerLogsPanelProps {
+  containerId: string;
+  onClose: () => void;
+}
+
+const MAX_LINES = 1000;
+
+export const ServerLogsPanel = ({
+  containerId,
+  onClose,
+}: ServerLogsPanelProps) => {
+  const [logs, setLogs] = useState<ContainerLogEntry[]>([]);
+  const [filter, setFilter] = useState("");
+  const [streamFilter, setStreamFilter] = useState<
+    "all" | ContainerLogEntry["stream"]
+  >("all");
+  const [isPaused, setIsPaused] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [connection, setConnection] = useState(0);
+  const isPausedRef = useRef(false);
+  const pausedLogsRef = useRef<ContainerLogEntry[]>([]);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setLogs([]);
+    setError(null);
+    pausedLogsRef.current = [];
+
+    const stopStreaming = streamContainerLogs(
+      containerId,
+      (entry) => {
+        if (isPausedRef.current) {
+          pausedLogsRef.current.push(entry);
+          return;
+        }
+        setLogs((prev) => [...prev, entry].slice(-MAX_LINES));
+      },
+      (error) => setError(error)
+    );
+
+    return stopStreaming;
+  }, [containerId, connection]);
+
+  useEffect(() => {
+    if (!isPaused) {
+      bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [logs, isPaused]);
+
+  const togglePause = () => {
+    const paused = !isPaused;
+    isPausedRef.current = paused;
+    setIsPaused(paused);
+
+    if (!paused && pausedLogsRef.current.length > 0) {
+      const buffered = pausedLogsRef.current;
+      pausedLogsRef.current = [];
+      setLogs((prev) => [...prev, ...buffered].slice(-MAX_LINES));
+    }
+  };
+
+  const visibleLogs = logs.filter(
+    (log) =>
+      (streamFilter === "all" || log.stream === streamFilter) &&
+      (!filter || log.message.toLowerCase().includes(filter.toLowerCase()))
+  );
+
+  return (
+    <div className="h-full flex flex-col bg-black/80 border-l border-gray-800/60">
+      <div className="flex items-center gap-2 px-3 py-2 bg-gray-900/80 border-b border-gray-800/60">
+        <ScrollText className="w-3.5 h-3.5 text-blue-400" />
+        <span className="text-xs font-medium text-white/80">Server logs</span>
+
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter..."
+          className="flex-1 min-w-0 px-2 py-0.5 text-xs bg-gray-800/60 border border-gray-700/60 rounded text-white placeholder-gray-500 focus:outline-none focus:border-blue-500/60"
+        />
+
+        <select
+          value={streamFilter}
+          onChange={(e) =>
+            setStreamFilter(e.target.value as typeof streamFilter)
+          }
+          className="px-1.5 py-0.5 text-xs bg-gray-800/60 border border-gray-700/60 rounded text-white/80 focus:outline-none"
+        >
+          <option value="all">All</option>
+          <option value="stdout">stdout</option>
+          <option value="stderr">stderr</option>
+        </select>
+
+        <button
+          onClick={togglePause}
+          className={`p-1 rounded transition-all ${
+            isPaused
+              ? "text-yellow-300 bg-yellow-500/20"
+              : "text-gray-400 hover:text-white hover:bg-gray-700"
+          }`}
+          title={isPaused ? "Resume" : "Pause"}
+        >
+          {isPaused ? (
+            <Play className="w-3.5 h-3.5" />
+          ) : (
+            <Pause className="w-3.5 h-3.5" />
+          )}
+        </button>
+        <button
+          onClick={() => setLogs([])}
+          className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded"
+          title="Clear"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded"
+          title="Close logs"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 py-2 font-mono text-xs leading-relaxed">
+        {visibleLogs.map((log, index) => (
+          <div
+            key={`${log.timestamp}-${index}`}
+            className={`whitespace-pre-wrap break-all ${
+              log.stream === "stderr" ? "text-red-400" : "text-gray-300"
+            }`}
+          >
+            <span className="text-gray-600 mr-2">
+              {new Date(log.timestamp).toLocaleTimeString()}
+            </span>
+            {log.message}
+          </div>
+        ))}
+        {visibleLogs.length === 0 && !error && (
+          <div className="text-gray-500">Waiting for output...</div>
+        )}
+        {error && (
+          <div className="flex items-center gap-2 mt-2 text-red-400">
+            <span>Log stream disconnected: {error}</span>
+            <button
+              onClick={() => setConnection((value) => value + 1)}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-gray-800 text-gray-300 hover:text-white"
+            >
+              <RefreshCw className="w-3 h-3" />
+              Reconnect
+            </button>
+          </div>
+        )}
+        {isPaused && (
+          <div className="sticky bottom-0 mt-2 text-yellow-300/80">
+            Paused - new output will appear when resumed
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+    </div>
+  );
+};
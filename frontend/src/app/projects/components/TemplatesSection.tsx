@@ -1,59 +1,28 @@
 "use client";
 
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  icon: string;
-  category: "template";
-  gradient?: string;
-}
+import { TemplateInfo } from "../../../lib/backend/api";
 
 interface TemplatesSectionProps {
+  templates: TemplateInfo[];
   selectedTemplate: string;
-  onTemplateSelect: (template: Template) => void;
+  onTemplateSelect: (template: TemplateInfo) => void;
 }
 
+// Logos of the templates that ship with December, others show their initial
+const templateIcons: Record<string, string> = {
+  nextjs: "/nextjs-logo.png",
+  "express-react": "/express-logo.png",
+  "express-vue": "/vue-logo.png",
+  django: "/django-logo.png",
+};
+
 export const TemplatesSection = ({
+  templates,
   selectedTemplate,
   onTemplateSelect,
 }: TemplatesSectionProps) => {
-  const templates: Template[] = [
-    {
-      id: "nextjs",
-      name: "Next.js",
-      description: "Build full-stack React apps with Next.js",
-      icon: "/nextjs-logo.png",
-      category: "template",
-      gradient: "from-black to-gray-800",
-    },
-    {
-      id: "express-react",
-      name: "Express & React",
-      description: "Node.js backend with React frontend",
-      icon: "/express-logo.png",
-      category: "template",
-      gradient: "from-gray-700 to-gray-900",
-    },
-    {
-      id: "express-vue",
-      name: "Express & Vue",
-      description: "Node.js backend with Vue.js frontend",
-      icon: "/vue-logo.png",
-      category: "template",
-      gradient: "from-green-600 to-emerald-800",
-    },
-    {
-      id: "django",
-      name: "Django",
-      description: "High-level Python web framework",
-      icon: "/django-logo.png",
-      category: "template",
-      gradient: "from-blue-600 to-indigo-800",
-    },
-  ];
-
-  const handleTemplateSelect = (template: Template) => {
+  const handleTemplateSelect = (template: TemplateInfo) => {
+    if (!template.installed) return;
     onTemplateSelect(template);
   };
 
@@ -73,23 +42,29 @@ export const TemplatesSection = ({
           <button
             key={template.id}
             onClick={() => handleTemplateSelect(template)}
-            className={`group relative bg-gray-900/40 hover:bg-gray-800/60 border rounded-xl p-4 transition-all duration-300 backdrop-blur-lg cursor-pointer text-left ${
-              selectedTemplate === template.name
+            disabled={!template.installed}
+            title={
+              template.installed
+                ? undefined
+                : "Add the files of this template next to its template.json"
+            }
+            className={`group relative bg-gray-900/40 hover:bg-gray-800/60 border rounded-xl p-4 transition-all duration-300 backdrop-blur-lg cursor-pointer text-left disabled:opacity-50 disabled:cursor-not-allowed ${
+              selectedTemplate === template.id
                 ? "border-purple-500/60 bg-purple-500/10"
                 : "border-gray-700/40 hover:border-gray-600/60"
             }`}
           >
             <div className="flex flex-col">
               <div className="w-10 h-10 rounded-lg flex items-center justify-center shadow-lg overflow-hidden bg-black mb-3">
-                {template.icon.startsWith("/") ? (
+                {templateIcons[template.id] ? (
                   <img
-                    src={template.icon}
+                    src={templateIcons[template.id]}
                     alt={template.name}
                     className="w-8 h-8 object-contain"
                   />
                 ) : (
                   <span className="text-lg font-bold text-white">
-                    {template.icon}
+                    {template.name.charAt(0)}
                   </span>
                 )}
               </div>
@@ -100,6 +75,9 @@ export const TemplatesSection = ({
                 <p className="text-gray-400 text-sm group-hover:text-gray-300 transition-colors">
                   {template.description}
                 </p>
+                {!template.installed && (
+                  <p className="text-gray-500 text-xs mt-2">No files yet</p>
+                )}
               </div>
             </div>
           </button>
@@ -0,0 +1,206 @@
+"use client";
+
+import "@xterm/xterm/css/xterm.css";
+import { Plus, SquareTerminal, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { getTerminalUrl } from "../../../lib/backend/api";
+
+interface TerminalPanelProps {
+  containerId: string;
+}
+
+interface TerminalTab {
+  id: number;
+  title: string;
+}
+
+interface TerminalViewProps {
+  containerId: string;
+  isActive: boolean;
+}
+
+const TerminalView = ({ containerId, isActive }: TerminalViewProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fitRef = useRef<(() => void) | null>(null);
+  const focusRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    let disposed = false;
+    let cleanup: (() => void) | null = null;
+
+    const setup = async () => {
+      const [{ Terminal }, { FitAddon }] = await Promise.all([
+        import("@xterm/xterm"),
+        import("@xterm/addon-fit"),
+      ]);
+      if (disposed || !containerRef.current) return;
+
+      const terminal = new Terminal({
+        cursorBlink: true,
+        fontSize: 13,
+        fontFamily: "Menlo, Monaco, 'Courier New', monospace",
+        theme: { background: "#030712" },
+      });
+      const fitAddon = new FitAddon();
+      terminal.loadAddon(fitAddon);
+      terminal.open(containerRef.current);
+      fitAddon.fit();
+
+      const socket = new WebSocket(
+        getTerminalUrl(containerId, terminal.cols, terminal.rows)
+      );
+
+      const send = (message: object) => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify(message));
+        }
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const message = JSON.parse(event.data);
+          if (message.type === "output") {
+            terminal.write(message.data);
+          } else if (message.type === "exit") {
+            terminal.write("\r\n\x1b[90m[Process exited]\x1b[0m\r\n");
+          } else if (message.type === "error") {
+            terminal.write(`\r\n\x1b[31m${message.error}\x1b[0m\r\n`);
+          }
+        } catch (error) {
+          console.error("Failed to parse terminal message:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        terminal.write("\r\n\x1b[90m[Disconnected]\x1b[0m\r\n");
+      };
+
+      const dataListener = terminal.onData((data) =>
+        send({ type: "input", data })
+      );
+      const resizeListener = terminal.onResize(({ cols, rows }) =>
+        send({ type: "resize", cols, rows })
+      );
+
+      const resizeObserver = new ResizeObserver(() => fitAddon.fit());
+      resizeObserver.observe(containerRef.current);
+
+      fitRef.current = () => fitAddon.fit();
+      focusRef.current = () => terminal.focus();
+      terminal.focus();
+
+      cleanup = () => {
+        resizeObserver.disconnect();
+        dataListener.dispose();
+        resizeListener.dispose();
+        socket.onclose = null;
+        socket.close();
+        terminal.dispose();
+      };
+    };
+
+    setup().catch((error) => console.error("Failed to start terminal:", error));
+
+    return () => {
+      disposed = true;
+      cleanup?.();
+    };
+  }, [containerId]);
+
+  useEffect(() => {
+    if (isActive) {
+      fitRef.current?.();
+      focusRef.current?.();
+    }
+  }, [isActive]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`h-full w-full p-2 bg-gray-950 ${isActive ? "" : "hidden"}`}
+    />
+  );
+};
+
+export const TerminalPanel = ({ containerId }: TerminalPanelProps) => {
+  const [tabs, setTabs] = useState<TerminalTab[]>([
+    { id: 1, title: "Terminal 1" },
+  ]);
+  const [activeTabId, setActiveTabId] = useState<number | null>(1);
+  const nextTabIdRef = useRef(2);
+
+  const addTab = () => {
+    const id = nextTabIdRef.current++;
+    setTabs((prev) => [...prev, { id, title: `Terminal ${id}` }]);
+    setActiveTabId(id);
+  };
+
+  const closeTab = (id: number) => {
+    const remaining = tabs.filter((tab) => tab.id !== id);
+    setTabs(remaining);
+
+    if (activeTabId === id) {
+      setActiveTabId(remaining[remaining.length - 1]?.id ?? null);
+    }
+  };
+
+  return (
+    <div className="h-full bg-gray-900/40 backdrop-blur-sm rounded-xl border border-gray-800/40 overflow-hidden shadow-2xl shadow-black/20 flex flex-col">
+      <div className="flex items-center gap-1 px-2 py-1.5 bg-gray-800 border-b border-gray-700">
+        {tabs.map((tab) => (
+          <div
+            key={tab.id}
+            onClick={() => setActiveTabId(tab.id)}
+            className={`flex items-center gap-1.5 pl-2.5 pr-1 py-1 rounded text-xs cursor-pointer ${
+              tab.id === activeTabId
+                ? "bg-gray-900 text-white"
+                : "text-gray-400 hover:text-white hover:bg-gray-700/60"
+            }`}
+          >
+            <SquareTerminal className="w-3.5 h-3.5" />
+            <span>{tab.title}</span>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                closeTab(tab.id);
+              }}
+              className="p-0.5 text-gray-500 hover:text-white hover:bg-gray-700 rounded"
+              title="Close terminal"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={addTab}
+          className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded"
+          title="New terminal"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 bg-gray-950">
+        {tabs.length === 0 ? (
+          <div className="flex h-full items-center justify-center">
+            <button
+              onClick={addTab}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm text-white/70 hover:text-white bg-gray-800 hover:bg-gray-700 transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              New terminal
+            </button>
+          </div>
+        ) : (
+          tabs.map((tab) => (
+            <TerminalView
+              key={tab.id}
+              containerId={containerId}
+              isActive={tab.id === activeTabId}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
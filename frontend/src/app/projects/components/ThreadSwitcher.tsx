@@ -0,0 +1,238 @@
+"use client";
+
+import {
+  Check,
+  ChevronDown,
+  MessagesSquare,
+  Pencil,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+  ChatSessionInfo,
+  createChatSession,
+  deleteChatSession,
+  getChatSessions,
+  renameChatSession,
+} from "../../../lib/backend/api";
+
+interface ThreadSwitcherProps {
+  containerId: string;
+  activeSessionId: string | null;
+  onSelect: (sessionId: string | null) => void;
+  refreshKey?: number;
+  disabled?: boolean;
+}
+
+export const ThreadSwitcher = ({
+  containerId,
+  activeSessionId,
+  onSelect,
+  refreshKey,
+  disabled = false,
+}: ThreadSwitcherProps) => {
+  const [sessions, setSessions] = useState<ChatSessionInfo[]>([]);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState<string>("");
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const loadSessions = async () => {
+    try {
+      const response = await getChatSessions(containerId);
+      if (response.success) {
+        setSessions(response.sessions);
+      }
+    } catch (error) {
+      console.error("Failed to load chat threads:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, [containerId, activeSessionId, refreshKey]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setEditingId(null);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const activeSession = sessions.find(
+    (session) => session.id === activeSessionId
+  );
+
+  const handleCreate = async () => {
+    try {
+      const response = await createChatSession(containerId);
+      if (response.success) {
+        setIsOpen(false);
+        onSelect(response.session.id);
+      }
+    } catch (error) {
+      console.error("Failed to create chat thread:", error);
+      toast.error("Failed to create a new thread");
+    }
+  };
+
+  const handleRename = async (sessionId: string) => {
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+
+    try {
+      const response = await renameChatSession(containerId, sessionId, title);
+      if (response.success) {
+        setSessions((prev) =>
+          prev.map((session) =>
+            session.id === sessionId ? response.session : session
+          )
+        );
+      }
+    } catch (error) {
+      console.error("Failed to rename chat thread:", error);
+      toast.error("Failed to rename thread");
+    }
+  };
+
+  const handleDelete = async (session: ChatSessionInfo) => {
+    if (!confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteChatSession(containerId, session.id);
+      const remaining = sessions.filter((s) => s.id !== session.id);
+      setSessions(remaining);
+
+      if (session.id === activeSessionId) {
+        onSelect(remaining[0]?.id ?? null);
+      }
+    } catch (error) {
+      console.error("Failed to delete chat thread:", error);
+      toast.error("Failed to delete thread");
+    }
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      className="relative flex items-center gap-2 h-10 px-4 border-b border-gray-800/30 z-20"
+    >
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        disabled={disabled}
+        className="flex items-center gap-1.5 min-w-0 flex-1 text-left text-xs text-white/70 hover:text-white disabled:opacity-50 transition-colors"
+        title="Switch thread"
+      >
+        <MessagesSquare className="w-3.5 h-3.5 flex-shrink-0" />
+        <span className="truncate">{activeSession?.title || "New chat"}</span>
+        <ChevronDown className="w-3.5 h-3.5 flex-shrink-0" />
+      </button>
+      <button
+        onClick={handleCreate}
+        disabled={disabled}
+        className="p-1 text-white/50 hover:text-white hover:bg-white/5 rounded disabled:opacity-50"
+        title="New thread"
+      >
+        <Plus className="w-3.5 h-3.5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-2 right-2 top-full mt-1 max-h-72 overflow-y-auto custom-scrollbar bg-gray-900 border border-gray-700/60 rounded-lg shadow-xl shadow-black/40 py-1">
+          {sessions.length === 0 && (
+            <div className="px-3 py-2 text-xs text-white/40">
+              No threads yet
+            </div>
+          )}
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              onClick={() => {
+                if (editingId) return;
+                setIsOpen(false);
+                onSelect(session.id);
+              }}
+              className={`group flex items-center gap-2 px-3 py-1.5 text-xs cursor-pointer ${
+                session.id === activeSessionId
+                  ? "bg-white/10 text-white"
+                  : "text-white/70 hover:bg-white/5 hover:text-white"
+              }`}
+            >
+              {editingId === session.id ? (
+                <>
+                  <input
+                    autoFocus
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleRename(session.id);
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded px-1.5 py-0.5 text-white focus:outline-none"
+                  />
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRename(session.id);
+                    }}
+                    className="p-0.5 text-white/50 hover:text-white"
+                    title="Save"
+                  >
+                    <Check className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditingId(null);
+                    }}
+                    className="p-0.5 text-white/50 hover:text-white"
+                    title="Cancel"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 truncate">{session.title}</span>
+                  <span className="text-white/30">{session.messageCount}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditingId(session.id);
+                      setEditingTitle(session.title);
+                    }}
+                    className="p-0.5 text-white/40 hover:text-white opacity-0 group-hover:opacity-100"
+                    title="Rename thread"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(session);
+                    }}
+                    className="p-0.5 text-white/40 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                    title="Delete thread"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
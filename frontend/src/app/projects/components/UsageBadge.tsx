@@ -0,0 +1,42 @@
+"use client";
+
+import { Coins } from "lucide-react";
+import { UsageSummary } from "../../../lib/backend/api";
+
+interface UsageBadgeProps {
+  usage: UsageSummary | null | undefined;
+  className?: string;
+}
+
+export const formatTokens = (tokens: number) => {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${tokens}`;
+};
+
+export const formatCost = (cost: number) =>
+  cost > 0 && cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`;
+
+export const UsageBadge = ({ usage, className = "" }: UsageBadgeProps) => {
+  if (!usage || usage.requests === 0) return null;
+
+  const tokens = usage.promptTokens + usage.completionTokens;
+  const hasCost = usage.unpricedTokens < tokens;
+
+  return (
+    <div
+      className={`flex items-center gap-1.5 text-xs text-white/60 ${className}`}
+      title={`${usage.promptTokens.toLocaleString()} prompt and ${usage.completionTokens.toLocaleString()} completion tokens in ${usage.requests} requests${
+        usage.unpricedTokens > 0
+          ? `, ${usage.unpricedTokens.toLocaleString()} tokens from models without a price`
+          : ""
+      }`}
+    >
+      <Coins className="w-3.5 h-3.5" />
+      <span>{formatTokens(tokens)} tokens</span>
+      {hasCost && (
+        <span className="text-white/80">{formatCost(usage.cost)}</span>
+      )}
+    </div>
+  );
+};
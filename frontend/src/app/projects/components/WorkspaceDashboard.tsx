@@ -6,29 +6,55 @@ import {
   Download,
   ExternalLink,
   Eye,
+  FileDiff,
   Globe,
+  Hammer,
   Home,
   Layers,
   Menu,
   Monitor,
   RefreshCw,
+  ScrollText,
   Smartphone,
+  SquareTerminal,
   Terminal,
   Upload,
+  Wrench,
 } from "lucide-react";
 import Link from "next/link";
-import { useEffect, useRef, useState } from "react";
+import { Fragment, useEffect, useRef, useState } from "react";
 import { toast } from "react-hot-toast";
 import {
+  BuildCheckStatus,
+  clearConsoleLogs,
+  ConsoleLogEntry,
+  editMessageStream,
   getChatHistory,
+  getConsoleLogs,
+  getProjectUsage,
+  LimitStatus,
+  markProjectOpened,
   Message,
+  MessageBranchInfo,
+  OperationResult,
+  ProjectUsage,
+  regenerateMessageStream,
+  revertToMessage,
   sendChatMessage,
   sendChatMessageStream,
 } from "../../../lib/backend/api";
 import { ChatInput } from "../../create/components/ChatInput";
 import { ChatMessage } from "../../create/components/ChatMessage";
 import CodeEditor from "../../editor/CodeEditor";
+import { ChangeReview } from "./ChangeReview";
+import { ConsolePanel } from "./ConsolePanel";
+import { LimitWarning } from "./LimitWarning";
 import { LivePreview } from "./LivePreview";
+import { ModelSelector } from "./ModelSelector";
+import { ServerLogsPanel } from "./ServerLogsPanel";
+import { TerminalPanel } from "./TerminalPanel";
+import { ThreadSwitcher } from "./ThreadSwitcher";
+import { UsageBadge } from "./UsageBadge";
 
 interface WorkspaceDashboardProps {
   containerId: string;
@@ -40,7 +66,10 @@ export const WorkspaceDashboard = ({
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState<string>("");
   const [sidebarOpen, setSidebarOpen] = useState<boolean>(true);
-  const [viewMode, setViewMode] = useState<"preview" | "editor">("preview");
+  const [viewMode, setViewMode] = useState<"preview" | "editor" | "terminal">(
+    "preview"
+  );
+  const [hasOpenedTerminal, setHasOpenedTerminal] = useState<boolean>(false);
   const [isDesktopView, setIsDesktopView] = useState<boolean>(true);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [containerUrl, setContainerUrl] = useState<string | null>(null);
@@ -51,6 +80,20 @@ export const WorkspaceDashboard = ({
   );
   const [isDragOver, setIsDragOver] = useState<boolean>(false);
   const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [reviewMode, setReviewMode] = useState<boolean>(false);
+  const [reviewMessageId, setReviewMessageId] = useState<string | null>(null);
+  const [autoFix, setAutoFix] = useState<boolean>(false);
+  const [toolCalling, setToolCalling] = useState<boolean>(false);
+  const [buildCheck, setBuildCheck] = useState<BuildCheckStatus | null>(null);
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
+  const [openFiles, setOpenFiles] = useState<string[]>([]);
+  const [summarizedUntil, setSummarizedUntil] = useState<string | null>(null);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [branches, setBranches] = useState<MessageBranchInfo[]>([]);
+  const [projectUsage, setProjectUsage] = useState<ProjectUsage | null>(null);
+  const [limits, setLimits] = useState<LimitStatus[]>([]);
+  const [consoleLogs, setConsoleLogs] = useState<ConsoleLogEntry[]>([]);
+  const [showServerLogs, setShowServerLogs] = useState<boolean>(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const streamCancelRef = useRef<(() => void) | null>(null);
@@ -64,6 +107,70 @@ export const WorkspaceDashboard = ({
     scrollToBottom();
   }, [messages]);
 
+  useEffect(() => {
+    if (isLoading) return;
+
+    getProjectUsage(containerId)
+      .then((response) => {
+        setProjectUsage(response.usage);
+        setLimits(response.limits);
+      })
+      .catch((error) => console.error("Failed to load usage:", error));
+  }, [containerId, isLoading]);
+
+  useEffect(() => {
+    setReviewMode(localStorage.getItem("reviewMode") === "true");
+    setAutoFix(localStorage.getItem("autoFix") === "true");
+    setToolCalling(localStorage.getItem("toolCalling") === "true");
+  }, []);
+
+  const toggleReviewMode = () => {
+    const enabled = !reviewMode;
+    setReviewMode(enabled);
+    localStorage.setItem("reviewMode", String(enabled));
+  };
+
+  const toggleAutoFix = () => {
+    const enabled = !autoFix;
+    setAutoFix(enabled);
+    localStorage.setItem("autoFix", String(enabled));
+  };
+
+  const toggleToolCalling = () => {
+    const enabled = !toolCalling;
+    setToolCalling(enabled);
+    localStorage.setItem("toolCalling", String(enabled));
+  };
+
+  useEffect(() => {
+    if (!containerId) return;
+
+    getConsoleLogs(containerId)
+      .then(setConsoleLogs)
+      .catch((error) => console.error("Error loading console logs:", error));
+  }, [containerId]);
+
+  useEffect(() => {
+    if (!containerId) return;
+
+    markProjectOpened(containerId).catch((error) =>
+      console.error("Error updating last opened time:", error)
+    );
+  }, [containerId]);
+
+  const handleConsoleLog = (entry: ConsoleLogEntry) => {
+    setConsoleLogs((prev) => [...prev.slice(-499), entry]);
+  };
+
+  const handleClearConsole = async () => {
+    setConsoleLogs([]);
+    try {
+      await clearConsoleLogs(containerId);
+    } catch (error) {
+      console.error("Error clearing console logs:", error);
+    }
+  };
+
   useEffect(() => {
     if (containerId) {
       const fetchContainerUrl = async () => {
@@ -94,8 +201,15 @@ export const WorkspaceDashboard = ({
       try {
         const response = await getChatHistory(containerId);
         if (response.success) {
+          const urlParams = new URLSearchParams(window.location.search);
+          const modelFromUrl = urlParams.get("model");
+          setSelectedModel(modelFromUrl || response.model || null);
+          setSummarizedUntil(response.summary?.lastMessageId || null);
+          setActiveSessionId(response.sessionId);
+          setBranches(response.branches || []);
+          const sessionId = response.sessionId;
+
           if (response.messages.length === 0 && !hasProcessedPrompt) {
-            const urlParams = new URLSearchParams(window.location.search);
             const promptFromUrl = urlParams.get("prompt");
 
             if (promptFromUrl) {
@@ -105,13 +219,33 @@ export const WorkspaceDashboard = ({
               try {
                 const response = await sendChatMessage(
                   containerId,
-                  promptFromUrl
+                  promptFromUrl,
+                  [],
+                  {
+                    review: localStorage.getItem("reviewMode") === "true",
+                    autoFix: localStorage.getItem("autoFix") === "true",
+                    tools:
+                      localStorage.getItem("toolCalling") === "true" ||
+                      undefined,
+                    model: modelFromUrl || undefined,
+                    sessionId,
+                  }
                 );
                 if (response.success) {
-                  setMessages([
-                    response.userMessage,
-                    response.assistantMessage,
-                  ]);
+                  const history = await getChatHistory(containerId, sessionId);
+                  setMessages(
+                    history.success
+                      ? history.messages
+                      : [response.userMessage, response.assistantMessage]
+                  );
+
+                  if (
+                    response.assistantMessage.operations?.some(
+                      (op) => op.status === "pending"
+                    )
+                  ) {
+                    setReviewMessageId(response.assistantMessage.id);
+                  }
                 }
               } catch (error) {
                 console.error("Failed to send initial prompt:", error);
@@ -147,6 +281,32 @@ export const WorkspaceDashboard = ({
     }
   }, [containerId]);
 
+  const handleSelectSession = async (sessionId: string | null) => {
+    streamCancelRef.current?.();
+    streamCancelRef.current = null;
+    setIsLoading(false);
+    setStreamingMessageId(null);
+    setBuildCheck(null);
+    setReviewMessageId(null);
+
+    try {
+      const response = await getChatHistory(
+        containerId,
+        sessionId || undefined
+      );
+      if (response.success) {
+        setActiveSessionId(response.sessionId);
+        setMessages(response.messages);
+        setSelectedModel(response.model || null);
+        setSummarizedUntil(response.summary?.lastMessageId || null);
+        setBranches(response.branches || []);
+      }
+    } catch (error) {
+      console.error("Failed to load chat thread:", error);
+      toast.error("Failed to load thread");
+    }
+  };
+
   const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -203,6 +363,150 @@ export const WorkspaceDashboard = ({
     return validFiles;
   };
 
+  const handleStreamEvent = (data: any) => {
+    if (data.type === "user") {
+      setMessages((prev) => [...prev, data.data]);
+    } else if (data.type === "assistant") {
+      setStreamingMessageId(data.data.id);
+      setMessages((prev) => {
+        const newMessages = [...prev];
+        const existingIndex = newMessages.findIndex(
+          (msg) => msg.id === data.data.id
+        );
+
+        if (existingIndex >= 0) {
+          newMessages[existingIndex] = data.data;
+        } else {
+          newMessages.push(data.data);
+        }
+
+        return newMessages;
+      });
+    } else if (data.type === "operation") {
+      const { messageId, ...operation } = data.data;
+      setMessages((prev) =>
+        prev.map((msg) => {
+          if (msg.id !== messageId) return msg;
+
+          const operations = [...(msg.operations || [])];
+          const existingIndex = operations.findIndex(
+            (op) => op.id === operation.id
+          );
+
+          if (existingIndex >= 0) {
+            operations[existingIndex] = operation;
+          } else {
+            operations.push(operation);
+          }
+
+          return { ...msg, operations };
+        })
+      );
+    } else if (data.type === "check") {
+      setBuildCheck(data.data);
+    } else if (data.type === "done") {
+      setStreamingMessageId(null);
+      setMessages((prev) =>
+        prev.map((msg) => (msg.id === data.data.id ? data.data : msg))
+      );
+
+      if (
+        data.data.operations?.some(
+          (op: OperationResult) => op.status === "pending"
+        )
+      ) {
+        setReviewMessageId(data.data.id);
+      }
+    } else if (data.type === "error") {
+      setIsLoading(false);
+      setStreamingMessageId(null);
+      toast.error(data.data.error);
+    }
+  };
+
+  const handleStreamError = (error: string) => {
+    console.error("Streaming error:", error);
+    setIsLoading(false);
+    setStreamingMessageId(null);
+
+    if (error.includes("413") || error.includes("Payload Too Large")) {
+      toast.error("Files too large. Please reduce file sizes and try again.");
+    } else {
+      toast.error("Connection error. Please try again.");
+    }
+
+    const errorMessage: Message = {
+      id: `error-${Date.now()}`,
+      role: "assistant",
+      content: "Sorry, I encountered an error. Please try again.",
+      timestamp: new Date().toISOString(),
+    };
+    setMessages((prev) => [...prev, errorMessage]);
+  };
+
+  const handleStreamComplete = () => {
+    setIsLoading(false);
+    setStreamingMessageId(null);
+  };
+
+  const getStreamOptions = () => ({
+    review: reviewMode,
+    autoFix,
+    tools: toolCalling || undefined,
+    model: selectedModel || undefined,
+    openFiles,
+    sessionId: activeSessionId || undefined,
+  });
+
+  const startFork = (messageId: string) => {
+    const index = messages.findIndex((msg) => msg.id === messageId);
+    const forkedAfter = messages[index - 1]?.id ?? null;
+
+    streamCancelRef.current?.();
+    setMessages((prev) => prev.slice(0, index));
+    setBranches((prev) => [
+      ...prev,
+      {
+        id: `branch-${Date.now()}`,
+        forkedAfter,
+        messageCount: messages.length - index,
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+    setBuildCheck(null);
+    setReviewMessageId(null);
+    setIsLoading(true);
+  };
+
+  const handleRegenerate = (messageId: string) => {
+    if (isLoading) return;
+
+    startFork(messageId);
+    streamCancelRef.current = regenerateMessageStream(
+      containerId,
+      messageId,
+      handleStreamEvent,
+      handleStreamError,
+      handleStreamComplete,
+      getStreamOptions()
+    );
+  };
+
+  const handleEditMessage = (messageId: string, content: string) => {
+    if (isLoading) return;
+
+    startFork(messageId);
+    streamCancelRef.current = editMessageStream(
+      containerId,
+      messageId,
+      content,
+      handleStreamEvent,
+      handleStreamError,
+      handleStreamComplete,
+      getStreamOptions()
+    );
+  };
+
   const handleSendMessage = async (attachments?: File[]): Promise<void> => {
     const allAttachments = [...(attachments || []), ...pendingFiles];
 
@@ -218,6 +522,7 @@ export const WorkspaceDashboard = ({
     const userInput = inputValue;
     setInputValue("");
     setPendingFiles([]);
+    setBuildCheck(null);
     setIsLoading(true);
 
     streamCancelRef.current?.();
@@ -245,61 +550,32 @@ export const WorkspaceDashboard = ({
       }
     }
 
-    const cancel = sendChatMessageStream(
+    streamCancelRef.current = sendChatMessageStream(
       containerId,
       userInput,
       attachmentData,
-      (data) => {
-        if (data.type === "user") {
-          setMessages((prev) => [...prev, data.data]);
-        } else if (data.type === "assistant") {
-          setStreamingMessageId(data.data.id);
-          setMessages((prev) => {
-            const newMessages = [...prev];
-            const existingIndex = newMessages.findIndex(
-              (msg) => msg.id === data.data.id
-            );
-
-            if (existingIndex >= 0) {
-              newMessages[existingIndex] = data.data;
-            } else {
-              newMessages.push(data.data);
-            }
-
-            return newMessages;
-          });
-        } else if (data.type === "done") {
-          setStreamingMessageId(null);
-        }
-      },
-      (error) => {
-        console.error("Streaming error:", error);
-        setIsLoading(false);
-        setStreamingMessageId(null);
+      handleStreamEvent,
+      handleStreamError,
+      handleStreamComplete,
+      getStreamOptions()
+    );
+  };
 
-        if (error.includes("413") || error.includes("Payload Too Large")) {
-          toast.error(
-            "Files too large. Please reduce file sizes and try again."
-          );
-        } else {
-          toast.error("Connection error. Please try again.");
-        }
+  const handleStopGenerating = () => {
+    streamCancelRef.current?.();
+    streamCancelRef.current = null;
 
-        const errorMessage: Message = {
-          id: `error-${Date.now()}`,
-          role: "assistant",
-          content: "Sorry, I encountered an error. Please try again.",
-          timestamp: new Date().toISOString(),
-        };
-        setMessages((prev) => [...prev, errorMessage]);
-      },
-      () => {
-        setIsLoading(false);
-        setStreamingMessageId(null);
-      }
-    );
+    if (streamingMessageId) {
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === streamingMessageId ? { ...msg, interrupted: true } : msg
+        )
+      );
+    }
 
-    streamCancelRef.current = cancel;
+    setStreamingMessageId(null);
+    setBuildCheck(null);
+    setIsLoading(false);
   };
 
   const handleTextareaKeyDown = (
@@ -361,6 +637,23 @@ export const WorkspaceDashboard = ({
     setPendingFiles((prev) => prev.filter((_, i) => i !== index));
   };
 
+  const handleRestoreMessage = async (messageId: string) => {
+    try {
+      await revertToMessage(containerId, messageId);
+      toast.success("Project restored");
+      handleRefresh();
+    } catch (error) {
+      console.error("Failed to restore checkpoint:", error);
+      toast.error("Failed to restore project. Please try again.");
+    }
+  };
+
+  const handleChangesResolved = (updatedMessage: Message) => {
+    setMessages((prev) =>
+      prev.map((msg) => (msg.id === updatedMessage.id ? updatedMessage : msg))
+    );
+  };
+
   const handleRefresh = () => {
     const iframe = document.querySelector("iframe");
     if (iframe) {
@@ -481,6 +774,35 @@ export const WorkspaceDashboard = ({
     });
   };
 
+  const BuildCheckIndicator = ({ check }: { check: BuildCheckStatus }) => (
+    <div
+      className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs border ${
+        check.status === "passed"
+          ? "bg-green-500/10 border-green-500/20 text-green-300"
+          : check.status === "failed"
+            ? "bg-red-500/10 border-red-500/20 text-red-300"
+            : "bg-gray-800/60 border-gray-700/40 text-white/70"
+      }`}
+    >
+      {check.status === "running" ? (
+        <div className="w-3 h-3 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />
+      ) : (
+        <Wrench className="w-3 h-3" />
+      )}
+      <span>
+        {check.status === "running" &&
+          (check.attempt === 1
+            ? "Checking the build..."
+            : `Checking the build after fix attempt ${check.attempt - 1}...`)}
+        {check.status === "passed" && "Build check passed"}
+        {check.status === "failed" &&
+          (check.attempt > check.maxAttempts
+            ? `Build still failing after ${check.maxAttempts} fix attempt(s)`
+            : "Build errors found, asking the assistant to fix them...")}
+      </span>
+    </div>
+  );
+
   const WelcomeMessage = () => (
     <div className="flex flex-col items-start mb-4">
       <div className="flex items-center gap-2 mb-2">
@@ -619,10 +941,36 @@ export const WorkspaceDashboard = ({
                 <Code2 className="w-3.5 h-3.5" />
                 Code
               </button>
+              <button
+                onClick={() => {
+                  setViewMode("terminal");
+                  setHasOpenedTerminal(true);
+                }}
+                className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs font-medium transition-all ${
+                  viewMode === "terminal"
+                    ? "bg-white/10 text-white shadow-sm backdrop-blur-sm"
+                    : "text-white/60 hover:text-white/80 hover:bg-white/5"
+                }`}
+              >
+                <SquareTerminal className="w-3.5 h-3.5" />
+                Terminal
+              </button>
             </div>
 
             <div className="h-4 w-px bg-gray-700/40 mx-1" />
 
+            <button
+              onClick={() => setShowServerLogs(!showServerLogs)}
+              className={`p-1.5 rounded-md transition-all backdrop-blur-sm ${
+                showServerLogs
+                  ? "text-white bg-white/10"
+                  : "text-white/60 hover:text-white hover:bg-white/5"
+              }`}
+              title={showServerLogs ? "Hide server logs" : "Show server logs"}
+            >
+              <ScrollText className="w-3.5 h-3.5" />
+            </button>
+
             <button
               onClick={handleRefresh}
               className="p-1.5 text-white/60 hover:text-white hover:bg-white/5 rounded-md transition-all backdrop-blur-sm"
@@ -704,40 +1052,118 @@ export const WorkspaceDashboard = ({
                 <span className="text-sm font-medium text-white/90">
                   AI Assistant
                 </span>
+                <button
+                  onClick={toggleReviewMode}
+                  className={`ml-auto flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium transition-all border ${
+                    reviewMode
+                      ? "bg-amber-500/15 text-amber-300 border-amber-500/30"
+                      : "text-white/50 hover:text-white/80 border-transparent hover:bg-white/5"
+                  }`}
+                  title="Review file changes before they are written"
+                >
+                  <FileDiff className="w-3.5 h-3.5" />
+                  Review
+                </button>
+                <button
+                  onClick={toggleAutoFix}
+                  className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium transition-all border ${
+                    autoFix
+                      ? "bg-green-500/15 text-green-300 border-green-500/30"
+                      : "text-white/50 hover:text-white/80 border-transparent hover:bg-white/5"
+                  }`}
+                  title="Check the build after changes and let the assistant fix errors"
+                >
+                  <Wrench className="w-3.5 h-3.5" />
+                  Auto-fix
+                </button>
+                <button
+                  onClick={toggleToolCalling}
+                  className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium transition-all border ${
+                    toolCalling
+                      ? "bg-purple-500/15 text-purple-300 border-purple-500/30"
+                      : "text-white/50 hover:text-white/80 border-transparent hover:bg-white/5"
+                  }`}
+                  title="Let the assistant read and change files through tool calls"
+                >
+                  <Hammer className="w-3.5 h-3.5" />
+                  Tools
+                </button>
               </div>
 
+              <ThreadSwitcher
+                containerId={containerId}
+                activeSessionId={activeSessionId}
+                onSelect={handleSelectSession}
+                refreshKey={messages.length}
+                disabled={isLoading}
+              />
+
               <div className="flex-1 overflow-y-auto p-4 custom-scrollbar relative z-10">
                 <div className="space-y-4">
                   {messages.length === 0 && <WelcomeMessage />}
 
-                  {messages.map((message) => (
-                    <ChatMessage
-                      key={message.id}
-                      message={message}
-                      formatMessageContent={formatMessageContent}
-                      containerId={containerId}
-                      isStreaming={streamingMessageId === message.id}
-                    />
+                  {messages.map((message, index) => (
+                    <Fragment key={message.id}>
+                      <ChatMessage
+                        message={message}
+                        formatMessageContent={formatMessageContent}
+                        containerId={containerId}
+                        isStreaming={streamingMessageId === message.id}
+                        onRestore={handleRestoreMessage}
+                        onReview={setReviewMessageId}
+                        onRegenerate={isLoading ? undefined : handleRegenerate}
+                        onEdit={isLoading ? undefined : handleEditMessage}
+                        previousVersions={
+                          branches.filter(
+                            (branch) =>
+                              branch.forkedAfter ===
+                              (messages[index - 1]?.id ?? null)
+                          ).length
+                        }
+                      />
+                      {message.id === summarizedUntil && (
+                        <div
+                          className="flex items-center gap-3 text-xs text-white/40"
+                          title="Messages above are sent to the assistant as a summary"
+                        >
+                          <div className="h-px flex-1 bg-gray-700/60" />
+                          Earlier messages summarized for the assistant
+                          <div className="h-px flex-1 bg-gray-700/60" />
+                        </div>
+                      )}
+                    </Fragment>
                   ))}
-                  {isLoading && !streamingMessageId && (
-                    <div className="flex items-start">
-                      <div className="flex items-center gap-2 mb-2">
-                        <div className="w-4 h-4 bg-gradient-to-br from-blue-500 to-purple-500 rounded" />
-                        <span className="text-sm font-medium">Assistant</span>
-                      </div>
-                      <div className="max-w-[80%] rounded-xl px-3 py-3 text-sm leading-relaxed bg-gray-800/60 backdrop-blur-md text-gray-100 ml-2 border border-gray-700/40 shadow-sm">
-                        <div className="flex items-center gap-2">
-                          <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />
-                          <span>Thinking...</span>
+                  {buildCheck && <BuildCheckIndicator check={buildCheck} />}
+                  {isLoading &&
+                    !streamingMessageId &&
+                    buildCheck?.status !== "running" && (
+                      <div className="flex items-start">
+                        <div className="flex items-center gap-2 mb-2">
+                          <div className="w-4 h-4 bg-gradient-to-br from-blue-500 to-purple-500 rounded" />
+                          <span className="text-sm font-medium">Assistant</span>
+                        </div>
+                        <div className="max-w-[80%] rounded-xl px-3 py-3 text-sm leading-relaxed bg-gray-800/60 backdrop-blur-md text-gray-100 ml-2 border border-gray-700/40 shadow-sm">
+                          <div className="flex items-center gap-2">
+                            <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />
+                            <span>Thinking...</span>
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  )}
+                    )}
                   <div ref={messagesEndRef} />
                 </div>
               </div>
 
               <div className="border-t border-gray-800/30 relative z-10">
+                <LimitWarning limits={limits} />
+                <div className="flex items-center justify-between gap-2 px-4 pt-2">
+                  <ModelSelector
+                    value={selectedModel}
+                    onChange={setSelectedModel}
+                    disabled={isLoading}
+                  />
+                  <UsageBadge usage={projectUsage} />
+                </div>
                 <ChatInput
                   inputValue={inputValue}
                   setInputValue={setInputValue}
@@ -747,6 +1173,11 @@ export const WorkspaceDashboard = ({
                   disabled={isLoading}
                   pendingFiles={pendingFiles}
                   onRemovePendingFile={removePendingFile}
+                  onStop={
+                    isLoading && streamCancelRef.current
+                      ? handleStopGenerating
+                      : undefined
+                  }
                 />
               </div>
             </div>
@@ -755,18 +1186,55 @@ export const WorkspaceDashboard = ({
           <div className="flex-1 bg-black relative">
             <div className="absolute inset-0 bg-[radial-gradient(circle_at_1px_1px,_rgba(148,163,184,0.15)_1px,_transparent_0)] bg-[length:32px_32px] opacity-5" />
 
-            {viewMode === "preview" ? (
+            {reviewMessageId ? (
+              <ChangeReview
+                containerId={containerId}
+                messageId={reviewMessageId}
+                onResolved={handleChangesResolved}
+                onClose={() => setReviewMessageId(null)}
+              />
+            ) : viewMode === "preview" ? (
               <div className="h-full p-6 relative z-10">
-                <div className="h-full bg-gray-900/40 backdrop-blur-sm rounded-xl border border-gray-800/40 overflow-hidden shadow-2xl shadow-black/20">
-                  <LivePreview
-                    containerId={containerId}
-                    isDesktopView={isDesktopView}
-                  />
+                <div className="h-full bg-gray-900/40 backdrop-blur-sm rounded-xl border border-gray-800/40 overflow-hidden shadow-2xl shadow-black/20 flex">
+                  <div className="flex-1 min-w-0 flex flex-col">
+                    <div className="flex-1 min-h-0">
+                      <LivePreview
+                        containerId={containerId}
+                        isDesktopView={isDesktopView}
+                        onConsoleLog={handleConsoleLog}
+                      />
+                    </div>
+                    <ConsolePanel
+                      logs={consoleLogs}
+                      onClear={handleClearConsole}
+                    />
+                  </div>
+                  {showServerLogs && (
+                    <div className="w-2/5 min-w-[320px]">
+                      <ServerLogsPanel
+                        containerId={containerId}
+                        onClose={() => setShowServerLogs(false)}
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
-            ) : (
+            ) : viewMode === "editor" ? (
               <div className="h-full relative z-10">
-                <CodeEditor containerId={containerId} />
+                <CodeEditor
+                  containerId={containerId}
+                  onOpenFilesChange={setOpenFiles}
+                />
+              </div>
+            ) : null}
+
+            {hasOpenedTerminal && (
+              <div
+                className={`h-full p-6 relative z-10 ${
+                  viewMode === "terminal" && !reviewMessageId ? "" : "hidden"
+                }`}
+              >
+                <TerminalPanel containerId={containerId} />
               </div>
             )}
           </div>
@@ -3,6 +3,13 @@ const API_BASE_URL = "http://localhost:4000";
 export interface Container {
   id: string;
   name: string;
+  containerName?: string;
+  description: string;
+  templateId: string;
+  template: string;
+  prompt?: string;
+  updatedAt?: string;
+  lastOpenedAt?: string;
   status: string;
   image: string;
   created: string;
@@ -16,12 +23,159 @@ export interface Container {
   labels: Record<string, string>;
 }
 
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  description: string;
+  templateId: string;
+  prompt?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastOpenedAt?: string;
+}
+
+export interface CreateProjectDetails {
+  name?: string;
+  description?: string;
+  templateId?: string;
+  prompt?: string;
+}
+
 export interface Message {
   id: string;
   role: "user" | "assistant";
   content: string;
   timestamp: string;
   attachments?: Attachment[];
+  operations?: OperationResult[];
+  checkpointId?: string;
+  commitHash?: string;
+  autoFixAttempt?: number;
+  model?: string;
+  interrupted?: boolean;
+  toolCalls?: ToolCallInfo[];
+  usage?: MessageUsage;
+}
+
+export interface MessageUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number;
+}
+
+export interface ToolCallInfo {
+  id: string;
+  name: string;
+  target: string;
+  status: "running" | "succeeded" | "failed";
+  error?: string;
+}
+
+export interface OperationResult {
+  id: string;
+  type: "write" | "edit" | "rename" | "delete" | "dependency";
+  target: string;
+  status: "pending" | "started" | "succeeded" | "failed" | "rejected";
+  error?: string;
+}
+
+export interface PendingChange {
+  operationId: string;
+  type: OperationResult["type"];
+  path: string;
+  original: string;
+  proposed: string;
+  status: OperationResult["status"];
+  error?: string;
+}
+
+export interface SendMessageOptions {
+  review?: boolean;
+  autoFix?: boolean;
+  tools?: boolean;
+  model?: string;
+  openFiles?: string[];
+  sessionId?: string;
+}
+
+export interface ChatSessionInfo {
+  id: string;
+  title: string;
+  messageCount: number;
+  model?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  provider: string;
+  providerType: "openai" | "anthropic" | "ollama";
+  model: string;
+  available: boolean;
+  isDefault: boolean;
+}
+
+export interface ModelsResponse {
+  models: ModelInfo[];
+  defaultModel: string;
+}
+
+export interface TemplateInfo {
+  id: string;
+  name: string;
+  description: string;
+  basePath: string;
+  devCommand: string;
+  port: number;
+  packageManager: string;
+  installed: boolean;
+}
+
+export interface TemplatesResponse {
+  templates: TemplateInfo[];
+  defaultTemplate: string;
+}
+
+export interface UsageSummary {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpricedTokens: number;
+  requests: number;
+}
+
+export interface ProjectUsage extends UsageSummary {
+  byModel: Record<string, UsageSummary>;
+}
+
+export interface LimitStatus {
+  scope: "project" | "global";
+  period: "minute" | "day" | "month";
+  metric: "requests" | "tokens" | "cost";
+  used: number;
+  limit: number;
+  state: "ok" | "warning" | "exceeded";
+  resetsAt: string;
+}
+
+export interface ProjectUsageResponse {
+  usage: ProjectUsage;
+  limits: LimitStatus[];
+}
+
+export interface UsageResponse {
+  total: UsageSummary;
+  projects: Record<string, UsageSummary>;
+}
+
+export interface BuildCheckStatus {
+  messageId: string;
+  attempt: number;
+  maxAttempts: number;
+  status: "running" | "passed" | "failed";
+  output?: string;
 }
 
 export interface Attachment {
@@ -38,17 +192,33 @@ export interface ApiResponse<T> {
   error?: string;
 }
 
+export type CreationStage =
+  "queued" | "image" | "install" | "container" | "dev-server" | "ready";
+
+export interface CreationEvent {
+  stage: CreationStage;
+  message: string;
+  timestamp: string;
+}
+
+export interface CreationJob {
+  id: string;
+  templateId: string;
+  status: "running" | "completed" | "failed";
+  stage: CreationStage;
+  events?: CreationEvent[];
+  containerId?: string;
+  project?: ProjectInfo;
+  port?: number;
+  url?: string;
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+}
+
 export interface CreateContainerResponse {
-  containerId: string;
-  container: {
-    id: string;
-    containerId: string;
-    status: string;
-    port: number;
-    url: string;
-    createdAt: string;
-    type: string;
-  };
+  jobId: string;
+  job: CreationJob;
 }
 
 export interface StartContainerResponse {
@@ -76,10 +246,62 @@ export interface ChatResponse {
   assistantMessage: Message;
 }
 
+export interface RevertMessageResponse {
+  success: boolean;
+  messageId: string;
+  checkpointId: string;
+  message: string;
+}
+
+export interface GitCommit {
+  hash: string;
+  author: string;
+  date: string;
+  message: string;
+}
+
+export interface GitCheckoutResponse {
+  success: boolean;
+  ref: string;
+  commitHash: string | null;
+  message: string;
+}
+
+export interface ConsoleLogEntry {
+  level: "log" | "info" | "warn" | "error" | "debug";
+  message: string;
+  url?: string;
+  timestamp: string;
+}
+
+export interface ContainerLogEntry {
+  stream: "stdout" | "stderr";
+  message: string;
+  timestamp: string;
+}
+
 export interface ChatHistoryResponse {
   success: boolean;
   messages: Message[];
   sessionId: string;
+  title: string;
+  model?: string;
+  summary?: HistorySummary;
+  branches?: MessageBranchInfo[];
+}
+
+export interface MessageBranchInfo {
+  id: string;
+  forkedAfter: string | null;
+  messageCount: number;
+  createdAt: string;
+}
+
+export interface HistorySummary {
+  content: string;
+  filesChanged: string[];
+  lastMessageId: string;
+  createdAt: string;
 }
 
 async function fetchApi<T>(
@@ -109,10 +331,110 @@ export async function getContainers(): Promise<Container[]> {
   return response.containers;
 }
 
-export async function createContainer(): Promise<CreateContainerResponse> {
+export async function createContainer(
+  details: CreateProjectDetails = {}
+): Promise<CreateContainerResponse> {
   const response = await fetchApi<
     { success: boolean } & CreateContainerResponse
-  >("/containers/create", { method: "POST" });
+  >("/containers/create", {
+    method: "POST",
+    body: JSON.stringify(details),
+  });
+  return response;
+}
+
+export function streamCreationJob(
+  jobId: string,
+  onProgress: (event: CreationEvent) => void,
+  onComplete: (job: CreationJob) => void,
+  onError: (error: string) => void
+): () => void {
+  const eventSource = new EventSource(
+    `${API_BASE_URL}/containers/jobs/${jobId}/events`
+  );
+
+  eventSource.onmessage = (event) => {
+    if (event.data === "[DONE]") {
+      eventSource.close();
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(event.data);
+      if (parsed.type === "progress") {
+        onProgress(parsed.data);
+      } else if (parsed.type === "complete") {
+        onComplete(parsed.data);
+      } else if (parsed.type === "error") {
+        onError(parsed.data.error);
+        eventSource.close();
+      }
+    } catch (e) {
+      console.error("Failed to parse SSE data:", event.data, e);
+    }
+  };
+
+  eventSource.onerror = () => {
+    eventSource.close();
+    onError("Connection error");
+  };
+
+  return () => {
+    eventSource.close();
+  };
+}
+
+export async function updateProject(
+  containerId: string,
+  changes: { name?: string; description?: string }
+): Promise<{ success: boolean; project: ProjectInfo }> {
+  const response = await fetchApi<{
+    success: boolean;
+    project: ProjectInfo;
+  }>(`/containers/${containerId}`, {
+    method: "PATCH",
+    body: JSON.stringify(changes),
+  });
+  return response;
+}
+
+export async function markProjectOpened(
+  containerId: string
+): Promise<{ success: boolean; project: ProjectInfo }> {
+  const response = await fetchApi<{
+    success: boolean;
+    project: ProjectInfo;
+  }>(`/containers/${containerId}/open`, { method: "POST" });
+  return response;
+}
+
+export async function getModels(): Promise<ModelsResponse> {
+  const response = await fetchApi<{ success: boolean } & ModelsResponse>(
+    "/models"
+  );
+  return response;
+}
+
+export async function getTemplates(): Promise<TemplatesResponse> {
+  const response = await fetchApi<{ success: boolean } & TemplatesResponse>(
+    "/templates"
+  );
+  return response;
+}
+
+export async function getUsage(): Promise<UsageResponse> {
+  const response = await fetchApi<{ success: boolean } & UsageResponse>(
+    "/usage"
+  );
+  return response;
+}
+
+export async function getProjectUsage(
+  containerId: string
+): Promise<ProjectUsageResponse> {
+  const response = await fetchApi<{ success: boolean } & ProjectUsageResponse>(
+    `/chat/${containerId}/usage`
+  );
   return response;
 }
 
@@ -144,16 +466,85 @@ export async function deleteContainer(
   return response;
 }
 
+export async function getConsoleLogs(
+  containerId: string
+): Promise<ConsoleLogEntry[]> {
+  const response = await fetchApi<{
+    success: boolean;
+    logs: ConsoleLogEntry[];
+  }>(`/containers/${containerId}/console-logs`);
+  return response.logs;
+}
+
+export async function sendConsoleLogs(
+  containerId: string,
+  logs: ConsoleLogEntry[]
+): Promise<void> {
+  await fetchApi<{ success: boolean }>(
+    `/containers/${containerId}/console-logs`,
+    {
+      method: "POST",
+      body: JSON.stringify({ logs }),
+    }
+  );
+}
+
+export async function clearConsoleLogs(containerId: string): Promise<void> {
+  await fetchApi<{ success: boolean }>(
+    `/containers/${containerId}/console-logs`,
+    { method: "DELETE" }
+  );
+}
+
+export async function getGitLog(containerId: string): Promise<GitCommit[]> {
+  const response = await fetchApi<{ success: boolean; commits: GitCommit[] }>(
+    `/containers/${containerId}/git/log`
+  );
+  return response.commits;
+}
+
+export async function getGitDiff(
+  containerId: string,
+  ref: string = "HEAD"
+): Promise<string> {
+  const response = await fetchApi<{ success: boolean; diff: string }>(
+    `/containers/${containerId}/git/diff?ref=${encodeURIComponent(ref)}`
+  );
+  return response.diff;
+}
+
+export async function checkoutGitRef(
+  containerId: string,
+  ref: string
+): Promise<GitCheckoutResponse> {
+  const response = await fetchApi<GitCheckoutResponse>(
+    `/containers/${containerId}/git/checkout`,
+    {
+      method: "POST",
+      body: JSON.stringify({ ref }),
+    }
+  );
+  return response;
+}
+
+function getMessagesPath(containerId: string, sessionId?: string): string {
+  return sessionId
+    ? `/chat/${containerId}/sessions/${sessionId}/messages`
+    : `/chat/${containerId}/messages`;
+}
+
 export async function sendChatMessage(
   containerId: string,
   message: string,
-  attachments?: any[]
+  attachments?: any[],
+  options: SendMessageOptions = {}
 ): Promise<ChatResponse> {
+  const { sessionId, ...body } = options;
   const response = await fetchApi<ChatResponse>(
-    `/chat/${containerId}/messages`,
+    getMessagesPath(containerId, sessionId),
     {
       method: "POST",
-      body: JSON.stringify({ message, attachments }),
+      body: JSON.stringify({ message, attachments, ...body }),
     }
   );
   return response;
@@ -165,16 +556,78 @@ export function sendChatMessageStream(
   attachments: any[] = [],
   onMessage: (data: any) => void,
   onError?: (error: string) => void,
+  onComplete?: () => void,
+  options: SendMessageOptions = {}
+): () => void {
+  const { sessionId, ...body } = options;
+
+  return streamChatEvents(
+    getMessagesPath(containerId, sessionId),
+    "POST",
+    { message, attachments, stream: true, ...body },
+    onMessage,
+    onError,
+    onComplete
+  );
+}
+
+export function regenerateMessageStream(
+  containerId: string,
+  messageId: string,
+  onMessage: (data: any) => void,
+  onError?: (error: string) => void,
+  onComplete?: () => void,
+  options: SendMessageOptions = {}
+): () => void {
+  const { sessionId, ...body } = options;
+
+  return streamChatEvents(
+    `/chat/${containerId}/messages/${messageId}/regenerate`,
+    "POST",
+    body,
+    onMessage,
+    onError,
+    onComplete
+  );
+}
+
+export function editMessageStream(
+  containerId: string,
+  messageId: string,
+  message: string,
+  onMessage: (data: any) => void,
+  onError?: (error: string) => void,
+  onComplete?: () => void,
+  options: SendMessageOptions = {}
+): () => void {
+  const { sessionId, ...body } = options;
+
+  return streamChatEvents(
+    `/chat/${containerId}/messages/${messageId}`,
+    "PUT",
+    { message, ...body },
+    onMessage,
+    onError,
+    onComplete
+  );
+}
+
+function streamChatEvents(
+  path: string,
+  method: string,
+  body: object,
+  onMessage: (data: any) => void,
+  onError?: (error: string) => void,
   onComplete?: () => void
 ): () => void {
   let abortController = new AbortController();
 
-  fetch(`${API_BASE_URL}/chat/${containerId}/messages`, {
-    method: "POST",
+  fetch(`${API_BASE_URL}${path}`, {
+    method,
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ message, attachments, stream: true }),
+    body: JSON.stringify(body),
     signal: abortController.signal,
   })
     .then(async (response) => {
@@ -235,11 +688,156 @@ export function sendChatMessageStream(
   };
 }
 
+export function streamContainerLogs(
+  containerId: string,
+  onLog: (entry: ContainerLogEntry) => void,
+  onError?: (error: string) => void,
+  options: { follow?: boolean; tail?: number } = {}
+): () => void {
+  const params = new URLSearchParams({
+    follow: String(options.follow ?? true),
+  });
+  if (options.tail) params.set("tail", String(options.tail));
+
+  const eventSource = new EventSource(
+    `${API_BASE_URL}/containers/${containerId}/logs?${params}`
+  );
+
+  eventSource.onmessage = (event) => {
+    if (event.data === "[DONE]") {
+      eventSource.close();
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(event.data);
+      if (parsed.type === "log") {
+        onLog(parsed.data);
+      } else if (parsed.type === "error") {
+        onError?.(parsed.data.error);
+        eventSource.close();
+      }
+    } catch (e) {
+      console.error("Failed to parse SSE data:", event.data, e);
+    }
+  };
+
+  eventSource.onerror = () => {
+    eventSource.close();
+    onError?.("Connection error");
+  };
+
+  return () => {
+    eventSource.close();
+  };
+}
+
+export function getTerminalUrl(
+  containerId: string,
+  cols: number,
+  rows: number
+): string {
+  const params = new URLSearchParams({
+    cols: String(cols),
+    rows: String(rows),
+  });
+  return `${API_BASE_URL.replace(/^http/, "ws")}/containers/${containerId}/terminal?${params}`;
+}
+
 export async function getChatHistory(
-  containerId: string
+  containerId: string,
+  sessionId?: string
 ): Promise<ChatHistoryResponse> {
   const response = await fetchApi<ChatHistoryResponse>(
-    `/chat/${containerId}/messages`
+    getMessagesPath(containerId, sessionId)
   );
   return response;
 }
+
+export async function getChatSessions(
+  containerId: string
+): Promise<{ success: boolean; sessions: ChatSessionInfo[] }> {
+  const response = await fetchApi<{
+    success: boolean;
+    sessions: ChatSessionInfo[];
+  }>(`/chat/${containerId}/sessions`);
+  return response;
+}
+
+export async function createChatSession(
+  containerId: string,
+  title?: string
+): Promise<{ success: boolean; session: ChatSessionInfo }> {
+  const response = await fetchApi<{
+    success: boolean;
+    session: ChatSessionInfo;
+  }>(`/chat/${containerId}/sessions`, {
+    method: "POST",
+    body: JSON.stringify({ title }),
+  });
+  return response;
+}
+
+export async function renameChatSession(
+  containerId: string,
+  sessionId: string,
+  title: string
+): Promise<{ success: boolean; session: ChatSessionInfo }> {
+  const response = await fetchApi<{
+    success: boolean;
+    session: ChatSessionInfo;
+  }>(`/chat/${containerId}/sessions/${sessionId}`, {
+    method: "PATCH",
+    body: JSON.stringify({ title }),
+  });
+  return response;
+}
+
+export async function deleteChatSession(
+  containerId: string,
+  sessionId: string
+): Promise<{ success: boolean; message: string }> {
+  const response = await fetchApi<{ success: boolean; message: string }>(
+    `/chat/${containerId}/sessions/${sessionId}`,
+    { method: "DELETE" }
+  );
+  return response;
+}
+
+export async function revertToMessage(
+  containerId: string,
+  messageId: string
+): Promise<RevertMessageResponse> {
+  const response = await fetchApi<RevertMessageResponse>(
+    `/chat/${containerId}/messages/${messageId}/revert`,
+    { method: "POST" }
+  );
+  return response;
+}
+
+export async function getPendingChanges(
+  containerId: string,
+  messageId: string
+): Promise<PendingChange[]> {
+  const response = await fetchApi<{
+    success: boolean;
+    changes: PendingChange[];
+  }>(`/chat/${containerId}/messages/${messageId}/changes`);
+  return response.changes;
+}
+
+export async function resolvePendingChanges(
+  containerId: string,
+  messageId: string,
+  operationIds: string[],
+  action: "accept" | "reject"
+): Promise<Message> {
+  const response = await fetchApi<{ success: boolean; message: Message }>(
+    `/chat/${containerId}/messages/${messageId}/changes`,
+    {
+      method: "POST",
+      body: JSON.stringify({ operationIds, action }),
+    }
+  );
+  return response.message;
+}
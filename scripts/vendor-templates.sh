@@ -0,0 +1,50 @@
+#!/bin/bash
+
+# Fills the package cache with the dependencies of every template and builds the
+# tools every project image starts from, so December can create projects without
+# network access afterwards. Run it once while online.
+
+set -e
+
+cd "$(dirname "$0")/.."
+
+TEMPLATES_DIR="$(pwd)/templates"
+CACHE_DIR="$(pwd)/backend/data/package-cache"
+
+# December builds project images through the Docker API, which uses the classic
+# builder, so its layer cache is the one that needs the tools stage
+echo "Preparing the base image tools..."
+docker pull node:20-alpine
+docker pull oven/bun:1-alpine
+docker pull python:3-alpine
+DOCKER_BUILDKIT=0 docker build --target tools -t dec-tools backend/src
+
+# Packages are installed inside a Linux container so the cache holds the same
+# platform specific builds the project containers need. Every package manager
+# gets its own folder, project images only copy the one their template uses
+echo "Filling the package cache in $CACHE_DIR..."
+mkdir -p "$CACHE_DIR/bun" "$CACHE_DIR/pip"
+for template in "$TEMPLATES_DIR"/*/; do
+  if [ -f "$template/package.json" ]; then
+    # Without a lockfile bun still asks the registry for manifests, so a
+    # template missing one gets the lockfile of this install
+    docker run --rm \
+      -v "$template:/template" \
+      -v "$CACHE_DIR/bun:/cache" \
+      -e BUN_INSTALL_CACHE_DIR=/cache \
+      oven/bun:1-alpine \
+      sh -c "cp -R /template /tmp/app && cd /tmp/app && rm -rf node_modules && bun install && { [ -f /template/bun.lock ] || cp bun.lock /template/; }" ||
+      echo "Could not fill the package cache for $template, packages will be downloaded when projects are built"
+  fi
+
+  if [ -f "$template/requirements.txt" ]; then
+    docker run --rm \
+      -v "$template:/template:ro" \
+      -v "$CACHE_DIR/pip:/cache" \
+      python:3-alpine \
+      pip download --only-binary=:all: -d /cache -r /template/requirements.txt ||
+      echo "Could not fill the package cache for $template, packages will be downloaded when projects are built"
+  fi
+done
+
+echo "Templates are ready"
@@ -1,5 +1,10 @@
 #!/bin/bash
 
+# fill the package cache on the first start, later starts work offline
+if [ ! -d backend/data/package-cache/bun ]; then
+  bash scripts/vendor-templates.sh
+fi
+
 echo "Starting backend server..."
 
 # copy config file to backend directory
@@ -0,0 +1,12 @@
+from django.contrib.staticfiles.management.commands.runserver import (
+    Command as RunserverCommand,
+)
+from django.core.management import call_command
+
+
+class Command(RunserverCommand):
+    """Applies new migrations every time the dev server starts or reloads."""
+
+    def inner_run(self, *args, **options):
+        call_command("migrate", interactive=False, verbosity=0)
+        super().inner_run(*args, **options)
@@ -0,0 +1,10 @@
+from django.http import JsonResponse
+from django.shortcuts import render
+
+
+def index(request):
+    return render(request, "core/index.html")
+
+
+def hello(request):
+    return JsonResponse({"message": "Hello from Django"})
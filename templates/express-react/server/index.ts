@@ -0,0 +1,35 @@
+import express from "express";
+import path from "path";
+import { createServer as createViteServer } from "vite";
+import { apiRouter } from "./api";
+
+const PORT = Number(process.env.PORT) || 3000;
+const isProduction = process.env.NODE_ENV === "production";
+
+async function start() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", apiRouter);
+
+  const server = app.listen(PORT, "0.0.0.0", () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+  });
+
+  if (isProduction) {
+    const distDir = path.resolve("dist");
+    app.use(express.static(distDir));
+    app.get("/{*path}", (_req, res) => {
+      res.sendFile(path.join(distDir, "index.html"));
+    });
+    return;
+  }
+
+  // Vite serves the React app with hot reload on the same port as the API
+  const vite = await createViteServer({
+    server: { middlewareMode: true, hmr: { server } },
+    appType: "spa",
+  });
+  app.use(vite.middlewares);
+}
+
+start();
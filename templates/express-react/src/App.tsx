@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+
+export default function App() {
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/hello")
+      .then((response) => response.json())
+      .then((data: { message: string }) => setMessage(data.message))
+      .catch(() => setMessage("Could not reach the API"));
+  }, []);
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-neutral-50 p-8">
+      <div className="w-full max-w-md rounded-xl border border-neutral-200 bg-white p-6 shadow-sm">
+        <h1 className="text-xl font-semibold text-neutral-900">
+          Your app is ready
+        </h1>
+        <p className="mt-2 text-sm text-neutral-500">
+          Describe what you want to build and December will write it here.
+        </p>
+        <p className="mt-4 rounded-md bg-neutral-100 px-3 py-2 font-mono text-sm text-neutral-700">
+          {message ?? "Loading..."}
+        </p>
+      </div>
+    </main>
+  );
+}
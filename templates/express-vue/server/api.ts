@@ -0,0 +1,7 @@
+import { Router } from "express";
+
+export const apiRouter = Router();
+
+apiRouter.get("/hello", (_req, res) => {
+  res.json({ message: "Hello from Express" });
+});
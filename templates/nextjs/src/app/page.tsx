@@ -0,0 +1,26 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export default function Home() {
+  return (
+    <main className="flex min-h-screen items-center justify-center p-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Your app is ready</CardTitle>
+          <CardDescription>
+            Describe what you want to build and December will write it here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button className="w-full">Get started</Button>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}